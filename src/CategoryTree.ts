@@ -0,0 +1,71 @@
+import { ProjectCategory } from "./types";
+
+// Helpers for categories nested through "parentId"
+
+export function getCategoryParent(categories: ProjectCategory[], category: ProjectCategory): ProjectCategory | undefined {
+  return category.parentId ? categories.find(c => c.id === category.parentId) : undefined;
+}
+
+/**
+ * Names from the top-level category down to the given one, e.g. "Acme / Client X / Shop"
+ */
+export function getCategoryPath(categories: ProjectCategory[], categoryId: string): string | undefined {
+  const names: string[] = [];
+  const visited = new Set<string>();
+  let current = categories.find(c => c.id === categoryId);
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    names.unshift(current.name);
+    current = getCategoryParent(categories, current);
+  }
+  return names.length > 0 ? names.join(" / ") : undefined;
+}
+
+export function getChildCategories(categories: ProjectCategory[], parentId: string | undefined): ProjectCategory[] {
+  return categories.filter(c => {
+    // Categories whose parent no longer exists are shown at the top level
+    const effectiveParent = c.parentId && categories.some(p => p.id === c.parentId) ? c.parentId : undefined;
+    return effectiveParent === parentId;
+  });
+}
+
+// Category a project is listed under: projects whose category no longer exists are shown as uncategorized
+export function getEffectiveCategory(categories: ProjectCategory[], categoryId: string | undefined): string | undefined {
+  return categoryId && categories.some(c => c.id === categoryId) ? categoryId : undefined;
+}
+
+/**
+ * Ids of every category nested below the given one (not including itself)
+ */
+export function getDescendantIds(categories: ProjectCategory[], categoryId: string): string[] {
+  const result: string[] = [];
+  const queue = [categoryId];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const child of categories.filter(c => c.parentId === current)) {
+      if (child.id !== categoryId && !result.includes(child.id)) {
+        result.push(child.id);
+        queue.push(child.id);
+      }
+    }
+  }
+  return result;
+}
+
+// A category cannot be moved below itself or one of its descendants
+export function canReparent(categories: ProjectCategory[], categoryId: string, newParentId: string | undefined): boolean {
+  if (!newParentId) return true;
+  return newParentId !== categoryId && !getDescendantIds(categories, categoryId).includes(newParentId);
+}
+
+/**
+ * New category id that stays the same when the category is renamed. Older
+ * categories keep their slug ids, so the prefix keeps both kinds apart.
+ */
+export function createCategoryId(categories: ProjectCategory[]): string {
+  let id: string;
+  do {
+    id = `category-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+  } while (categories.some(c => c.id === id));
+  return id;
+}
@@ -0,0 +1,115 @@
+import * as vscode from "vscode";
+
+// Names of the product icons (codicons) as of @vscode/codicons 0.0.45. VS Code
+// has no API to list them; icons newer than the running version show up blank.
+export const CODICONS: string[] = [
+  "account", "activate-breakpoints", "add", "add-small", "agent", "archive", "arrow-both",
+  "arrow-circle-down", "arrow-circle-left", "arrow-circle-right", "arrow-circle-up", "arrow-down",
+  "arrow-left", "arrow-right", "arrow-small-down", "arrow-small-left", "arrow-small-right",
+  "arrow-small-up", "arrow-swap", "arrow-up", "ask", "attach", "azure", "azure-devops", "beaker",
+  "beaker-stop", "bell", "bell-dot", "bell-slash", "bell-slash-dot", "blank", "bold", "book",
+  "bookmark", "bracket-dot", "bracket-error", "briefcase", "broadcast", "browser", "bug", "build",
+  "calendar", "call-incoming", "call-outgoing", "case-sensitive", "chat-sparkle",
+  "chat-sparkle-error", "chat-sparkle-warning", "check", "check-all", "checklist", "chevron-down",
+  "chevron-left", "chevron-right", "chevron-up", "chip", "chrome-close", "chrome-maximize",
+  "chrome-minimize", "chrome-restore", "circle", "circle-filled", "circle-large",
+  "circle-large-filled", "circle-slash", "circle-small", "circle-small-filled", "circuit-board",
+  "claude", "clear-all", "clippy", "clockface", "close", "close-all", "cloud", "cloud-download",
+  "cloud-small", "cloud-upload", "code", "code-oss", "code-review", "coffee", "collapse-all",
+  "collection", "collection-small", "color-mode", "combine", "comment", "comment-discussion",
+  "comment-discussion-quote", "comment-discussion-sparkle", "comment-draft", "comment-unresolved",
+  "compass", "compass-active", "compass-dot", "copilot", "copilot-blocked", "copilot-error",
+  "copilot-in-progress", "copilot-large", "copilot-not-connected", "copilot-snooze",
+  "copilot-success", "copilot-unavailable", "copilot-warning", "copilot-warning-large", "copy",
+  "coverage", "credit-card", "cursor", "dash", "dashboard", "database", "debug", "debug-all",
+  "debug-alt", "debug-alt-small", "debug-breakpoint-conditional",
+  "debug-breakpoint-conditional-unverified", "debug-breakpoint-data",
+  "debug-breakpoint-data-unverified", "debug-breakpoint-function",
+  "debug-breakpoint-function-unverified", "debug-breakpoint-log",
+  "debug-breakpoint-log-unverified", "debug-breakpoint-unsupported", "debug-connected",
+  "debug-console", "debug-continue", "debug-continue-small", "debug-coverage", "debug-disconnect",
+  "debug-line-by-line", "debug-pause", "debug-rerun", "debug-restart", "debug-restart-frame",
+  "debug-reverse-continue", "debug-stackframe", "debug-stackframe-active", "debug-start",
+  "debug-step-back", "debug-step-into", "debug-step-out", "debug-step-over", "debug-stop",
+  "desktop-download", "device-camera", "device-camera-video", "device-mobile", "diff",
+  "diff-added", "diff-ignored", "diff-modified", "diff-multiple", "diff-removed", "diff-renamed",
+  "diff-single", "discard", "download", "edit", "edit-code", "edit-session", "edit-sparkle",
+  "editor-layout", "ellipsis", "empty-window", "eraser", "error", "error-small", "exclude",
+  "expand-all", "export", "extensions", "extensions-large", "eye", "eye-closed", "feedback",
+  "file", "file-binary", "file-code", "file-media", "file-pdf", "file-submodule",
+  "file-symlink-directory", "file-symlink-file", "file-text", "file-zip", "files", "filter",
+  "filter-filled", "flag", "flame", "fold", "fold-down", "fold-up", "folder", "folder-active",
+  "folder-library", "folder-opened", "forward", "game", "gear", "gift", "gist", "gist-secret",
+  "git-branch", "git-branch-changes", "git-branch-conflicts", "git-branch-staged-changes",
+  "git-commit", "git-compare", "git-fetch", "git-merge", "git-pull-request",
+  "git-pull-request-closed", "git-pull-request-create", "git-pull-request-done",
+  "git-pull-request-draft", "git-pull-request-go-to-changes", "git-pull-request-new-changes",
+  "git-stash", "git-stash-apply", "git-stash-pop", "github", "github-action", "github-alt",
+  "github-inverted", "github-project", "globe", "go-to-editing-session", "go-to-file",
+  "go-to-search", "grabber", "graph", "graph-left", "graph-line", "graph-scatter", "gripper",
+  "group-by-ref-type", "heart", "heart-filled", "history", "home", "horizontal-rule", "hubot",
+  "inbox", "indent", "index-zero", "info", "insert", "inspect", "issue-draft", "issue-reopened",
+  "issues", "italic", "jersey", "json", "kebab-vertical", "key", "keyboard-tab",
+  "keyboard-tab-above", "keyboard-tab-below", "law", "layers", "layers-active", "layers-dot",
+  "layout", "layout-activitybar-left", "layout-activitybar-right", "layout-centered",
+  "layout-menubar", "layout-panel", "layout-panel-center", "layout-panel-dock",
+  "layout-panel-justify", "layout-panel-left", "layout-panel-off", "layout-panel-right",
+  "layout-sidebar-left", "layout-sidebar-left-dock", "layout-sidebar-left-off",
+  "layout-sidebar-right", "layout-sidebar-right-dock", "layout-sidebar-right-off",
+  "layout-statusbar", "library", "lightbulb", "lightbulb-autofix", "lightbulb-empty",
+  "lightbulb-sparkle", "link", "link-external", "list-filter", "list-flat", "list-ordered",
+  "list-selection", "list-tree", "list-unordered", "live-share", "loading", "location", "lock",
+  "lock-small", "magnet", "mail", "mail-read", "map", "map-filled", "map-vertical",
+  "map-vertical-filled", "markdown", "mcp", "megaphone", "mention", "menu", "merge", "merge-into",
+  "mic", "mic-filled", "milestone", "mirror", "mortar-board", "move", "multiple-windows", "music",
+  "mute", "new-collection", "new-file", "new-folder", "new-session", "newline", "no-newline",
+  "note", "notebook", "notebook-template", "octoface", "open-in-product", "open-in-window",
+  "open-preview", "openai", "organization", "output", "package", "paintcan", "pass", "pass-filled",
+  "percentage", "person", "person-add", "piano", "pie-chart", "pin", "pinned", "pinned-dirty",
+  "play", "play-circle", "plug", "preserve-case", "preview", "primitive-square", "project",
+  "pulse", "python", "question", "quote", "quotes", "radio-tower", "reactions", "record",
+  "record-keys", "record-small", "redo", "references", "refresh", "regex", "remote",
+  "remote-explorer", "remove", "remove-small", "rename", "replace", "replace-all", "reply", "repo",
+  "repo-clone", "repo-fetch", "repo-force-push", "repo-forked", "repo-pinned", "repo-pull",
+  "repo-push", "repo-selected", "report", "robot", "rocket", "root-folder", "root-folder-opened",
+  "rss", "ruby", "run-above", "run-all", "run-all-coverage", "run-below", "run-coverage",
+  "run-errors", "run-with-deps", "save", "save-all", "save-as", "screen-cut", "screen-full",
+  "screen-normal", "search", "search-fuzzy", "search-large", "search-sparkle", "search-stop",
+  "send", "send-to-remote-agent", "server", "server-environment", "server-process",
+  "session-in-progress", "settings", "settings-gear", "share", "shield", "sign-in", "sign-out",
+  "skip", "smiley", "snake", "sort-precedence", "sparkle", "sparkle-filled", "split-horizontal",
+  "split-vertical", "squirrel", "star-empty", "star-full", "star-half", "stop-circle",
+  "strikethrough", "surround-with", "symbol-array", "symbol-boolean", "symbol-class",
+  "symbol-color", "symbol-constant", "symbol-enum", "symbol-enum-member", "symbol-event",
+  "symbol-field", "symbol-interface", "symbol-key", "symbol-keyword", "symbol-method",
+  "symbol-method-arrow", "symbol-misc", "symbol-numeric", "symbol-operator", "symbol-parameter",
+  "symbol-property", "symbol-ruler", "symbol-snippet", "symbol-structure", "symbol-variable",
+  "sync", "sync-ignored", "table", "tag", "target", "tasklist", "telescope", "terminal",
+  "terminal-bash", "terminal-cmd", "terminal-debian", "terminal-git-bash", "terminal-linux",
+  "terminal-powershell", "terminal-tmux", "terminal-ubuntu", "text-size", "thinking", "three-bars",
+  "thumbsdown", "thumbsdown-filled", "thumbsup", "thumbsup-filled", "tools", "trash",
+  "triangle-down", "triangle-left", "triangle-right", "triangle-up", "twitter", "type-hierarchy",
+  "type-hierarchy-sub", "type-hierarchy-super", "unarchive", "unfold", "ungroup-by-ref-type",
+  "unlock", "unmute", "unverified", "variable-group", "verified", "verified-filled", "vm",
+  "vm-active", "vm-connect", "vm-outline", "vm-pending", "vm-running", "vm-small", "vr", "vscode",
+  "vscode-insiders", "wand", "warning", "watch", "whitespace", "whole-word", "window-active",
+  "word-wrap", "workspace-trusted", "workspace-unknown", "workspace-untrusted", "worktree",
+  "worktree-small", "zoom-in", "zoom-out"
+];
+
+/**
+ * Quick pick over every codicon, previewed in its label. The current icon
+ * is listed first; resolves to the chosen name or undefined when cancelled.
+ */
+export async function pickCodicon(placeHolder: string, current?: string): Promise<string | undefined> {
+  const names = current ? [current, ...CODICONS.filter(name => name !== current)] : CODICONS;
+  const selected = await vscode.window.showQuickPick(
+    names.map(name => ({
+      label: `$(${name}) ${name}`,
+      description: name === current ? "current" : undefined,
+      name
+    })),
+    { placeHolder, matchOnDescription: true }
+  );
+  return selected?.name;
+}
@@ -0,0 +1,247 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import { CATEGORIES_SCHEMA_VERSION, PROJECTS_SCHEMA_VERSION, ProjectStore } from "./ProjectStore";
+import { isRemotePath } from "./RemoteProject";
+import { CODICONS } from "./Codicons";
+import { CATEGORY_COLORS } from "./ProjectDecorations";
+import { getDetectionRules } from "./DetectionRules";
+import { getCategoryPath } from "./CategoryTree";
+
+export const SCHEMA_SCHEME = "messProjectSchema";
+
+// Referenced by the jsonValidation contribution in package.json
+export const PROJECTS_SCHEMA_URI = vscode.Uri.from({ scheme: SCHEMA_SCHEME, path: "/projects.json" });
+export const CATEGORIES_SCHEMA_URI = vscode.Uri.from({ scheme: SCHEMA_SCHEME, path: "/categories.json" });
+
+const ICON_PATTERN = "^[a-z0-9-]+(~spin)?$";
+
+function iconSchema(description: string): object {
+  return {
+    type: "string",
+    description,
+    pattern: ICON_PATTERN,
+    patternErrorMessage: "A codicon name such as \"rocket\", optionally followed by \"~spin\"",
+    examples: CODICONS
+  };
+}
+
+function categoryIdSchema(store: ProjectStore, description: string): object {
+  const categories = store.getCategories();
+  return {
+    type: "string",
+    description,
+    examples: categories.map(c => c.id),
+    markdownDescription: `${description}\n\n${categories.map(c => `- \`${c.id}\`: ${getCategoryPath(categories, c.id) || c.name}`).join("\n")}`
+  };
+}
+
+function buildProjectsSchema(store: ProjectStore): object {
+  const remotePath = { type: "string", description: "Folder on the remote machine" };
+  return {
+    $schema: "http://json-schema.org/draft-07/schema#",
+    title: "Mess Project Manager projects",
+    type: "object",
+    required: ["version", "projects"],
+    properties: {
+      version: { const: PROJECTS_SCHEMA_VERSION, description: "Schema version, upgraded automatically" },
+      projects: {
+        type: "array",
+        items: {
+          type: "object",
+          required: ["label", "active"],
+          anyOf: [{ required: ["path"] }, { required: ["remote"] }],
+          properties: {
+            label: { type: "string", minLength: 1, description: "Name shown in the views" },
+            path: { type: "string", description: "Absolute folder or .code-workspace path, or a vscode-remote:// URI" },
+            active: { type: "boolean", description: "Inactive projects are hidden until shown with Toggle Show Inactive" },
+            category: categoryIdSchema(store, "Id of a category in categories.json"),
+            favorite: { type: "boolean" },
+            tags: { type: "array", items: { type: "string" }, uniqueItems: true },
+            remote: {
+              description: "Where a remote project lives; its path is derived from this when missing",
+              oneOf: [
+                { type: "object", required: ["type", "host", "path"], properties: { type: { const: "ssh" }, host: { type: "string" }, path: remotePath } },
+                { type: "object", required: ["type", "distro", "path"], properties: { type: { const: "wsl" }, distro: { type: "string" }, path: remotePath } },
+                { type: "object", required: ["type", "localFolder", "path"], properties: { type: { const: "devcontainer" }, localFolder: { type: "string" }, path: remotePath } },
+                { type: "object", required: ["type", "containerName", "path"], properties: { type: { const: "container" }, containerName: { type: "string" }, path: remotePath } }
+              ]
+            },
+            type: { type: "string", description: "Project type, overrides detection", examples: getDetectionRules().map(rule => rule.type) },
+            description: { type: "string" },
+            links: {
+              type: "object",
+              properties: Object.fromEntries(["issues", "ci", "docs"].map(key => [key, { type: "string", pattern: "^https?://\\S+$" }]))
+            },
+            icon: iconSchema("Codicon shown instead of the project type icon"),
+            notes: { type: "string" }
+          }
+        }
+      }
+    }
+  };
+}
+
+function buildCategoriesSchema(store: ProjectStore): object {
+  return {
+    $schema: "http://json-schema.org/draft-07/schema#",
+    title: "Mess Project Manager categories",
+    type: "object",
+    required: ["version", "categories"],
+    properties: {
+      version: { const: CATEGORIES_SCHEMA_VERSION, description: "Schema version, upgraded automatically" },
+      categories: {
+        type: "array",
+        items: {
+          type: "object",
+          required: ["id", "name"],
+          properties: {
+            id: { type: "string", minLength: 1, description: "Stable id referenced by projects.json" },
+            name: { type: "string", minLength: 1 },
+            icon: iconSchema("Codicon shown next to the category"),
+            color: { type: "string", description: "Theme color id tinting the category's projects", examples: CATEGORY_COLORS.map(color => color.id) },
+            parentId: categoryIdSchema(store, "Id of the enclosing category")
+          }
+        }
+      },
+      savedSearches: {
+        type: "array",
+        items: {
+          type: "object",
+          required: ["id", "name", "query"],
+          properties: {
+            id: { type: "string", minLength: 1 },
+            name: { type: "string", minLength: 1 },
+            query: { type: "string", description: "Search query, e.g. \"cat:work git:dirty\"" }
+          }
+        }
+      }
+    }
+  };
+}
+
+/**
+ * Serves the JSON schemas of projects.json and categories.json. They are
+ * generated so completions list the current category ids, and change with them.
+ */
+export class ConfigSchemaProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+  private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+  readonly onDidChange: vscode.Event<vscode.Uri> = this._onDidChange.event;
+  private subscription: vscode.Disposable;
+
+  constructor(private store: ProjectStore) {
+    this.subscription = store.onDidChange(() => {
+      this._onDidChange.fire(PROJECTS_SCHEMA_URI);
+      this._onDidChange.fire(CATEGORIES_SCHEMA_URI);
+    });
+  }
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    const schema = uri.path === CATEGORIES_SCHEMA_URI.path
+      ? buildCategoriesSchema(this.store)
+      : buildProjectsSchema(this.store);
+    return JSON.stringify(schema, null, 2);
+  }
+
+  dispose(): void {
+    this.subscription.dispose();
+    this._onDidChange.dispose();
+  }
+}
+
+// Every string value of the given key with its offsets. Used only to place
+// diagnostics, the values themselves come from the parsed file.
+function findStringValues(text: string, key: string): { value: string; start: number; end: number }[] {
+  const pattern = new RegExp(`"${key}"\\s*:\\s*("(?:[^"\\\\]|\\\\.)*")`, "g");
+  const results: { value: string; start: number; end: number }[] = [];
+  for (const match of text.matchAll(pattern)) {
+    try {
+      const start = match.index! + match[0].length - match[1].length;
+      results.push({ value: JSON.parse(match[1]), start, end: start + match[1].length });
+    } catch (error) {
+      // Not a complete string token
+    }
+  }
+  return results;
+}
+
+/**
+ * Problems the schema cannot express, shown while projects.json or
+ * categories.json is open: paths that do not exist and unknown category ids.
+ */
+export class ConfigDiagnostics implements vscode.Disposable {
+  private diagnostics = vscode.languages.createDiagnosticCollection("messProjectManager");
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private store: ProjectStore) {
+    this.disposables.push(
+      this.diagnostics,
+      vscode.workspace.onDidOpenTextDocument(doc => this.validate(doc)),
+      vscode.workspace.onDidChangeTextDocument(e => this.validate(e.document)),
+      vscode.workspace.onDidCloseTextDocument(doc => this.diagnostics.delete(doc.uri)),
+      // Category ids may have been added or removed
+      store.onDidChange(() => vscode.workspace.textDocuments.forEach(doc => this.validate(doc)))
+    );
+    vscode.workspace.textDocuments.forEach(doc => this.validate(doc));
+  }
+
+  dispose(): void {
+    this.disposables.forEach(d => d.dispose());
+  }
+
+  private validate(doc: vscode.TextDocument): void {
+    const filePath = doc.uri.scheme === "file" ? doc.uri.fsPath : undefined;
+    if (filePath !== this.store.projectsFile && filePath !== this.store.categoriesFile) return;
+
+    const text = doc.getText();
+    let data: any;
+    try {
+      data = JSON.parse(text);
+    } catch (error) {
+      // Syntax errors are reported by the JSON language service
+      this.diagnostics.delete(doc.uri);
+      return;
+    }
+
+    const problems: vscode.Diagnostic[] = [];
+    // Marks every occurrence of the key whose value is one of the flagged ones
+    const report = (key: string, flagged: Set<string>, message: (value: string) => string) => {
+      if (flagged.size === 0) return;
+      for (const { value, start, end } of findStringValues(text, key)) {
+        if (!flagged.has(value)) continue;
+        const diagnostic = new vscode.Diagnostic(
+          new vscode.Range(doc.positionAt(start), doc.positionAt(end)),
+          message(value),
+          vscode.DiagnosticSeverity.Warning
+        );
+        diagnostic.source = "Mess Project Manager";
+        problems.push(diagnostic);
+      }
+    };
+
+    if (filePath === this.store.projectsFile) {
+      const projects: any[] = Array.isArray(data?.projects) ? data.projects : [];
+      const missing = new Set(projects
+        .map(project => project?.path)
+        .filter(projectPath => typeof projectPath === "string" && projectPath && !isRemotePath(projectPath) && !fs.existsSync(projectPath)));
+      report("path", missing, value => `Path does not exist: ${value}`);
+
+      // Ids are checked against the loaded categories.json; skipped while it is broken
+      if (!this.store.getLoadError()?.startsWith("categories.json")) {
+        const categoryIds = new Set(this.store.getCategories().map(c => c.id));
+        const unknown = new Set(projects
+          .map(project => project?.category)
+          .filter(id => typeof id === "string" && !categoryIds.has(id)));
+        report("category", unknown, value => `Unknown category id "${value}" - the project is shown as uncategorized`);
+      }
+    } else {
+      const categories: any[] = Array.isArray(data?.categories) ? data.categories : [];
+      const definedIds = new Set(categories.map(category => category?.id));
+      const unknown = new Set(categories
+        .map(category => category?.parentId)
+        .filter(id => typeof id === "string" && !definedIds.has(id)));
+      report("parentId", unknown, value => `Unknown parent category id "${value}" - the category is shown at the top level`);
+    }
+
+    this.diagnostics.set(doc.uri, problems);
+  }
+}
@@ -0,0 +1,93 @@
+import * as vscode from "vscode";
+
+/**
+ * Declarative project type rule. A rule matches when any of its markers,
+ * all of its allMarkers, or (failing both) a file with one of its extensions
+ * exists in the project root - and, if it lists dependencies, package.json
+ * depends on at least one of them. The highest priority match wins.
+ */
+export interface DetectionRule {
+  type: string;
+  // File or folder names, globs ("*.csproj") or root-relative paths ("src/main/kotlin")
+  markers?: string[];
+  // Every one of these must exist (e.g. Unity's ProjectSettings + Assets)
+  allMarkers?: string[];
+  // Loose source files hinting at the type when no marker file exists
+  extensions?: string[];
+  // package.json dependencies or devDependencies; implies a package.json marker
+  dependencies?: string[];
+  priority?: number;
+  // Codicon id, or an SVG path (or light/dark pair) relative to the extension folder or absolute
+  icon?: string | { light: string; dark: string };
+}
+
+// Built-in rules. Priorities keep the order of the original if-chain:
+// package.json frameworks first, then language markers, then Docker and plain Git.
+export const BUILTIN_DETECTION_RULES: DetectionRule[] = [
+  { type: "react", dependencies: ["react", "@types/react"], priority: 100, icon: { light: "icons/light/react.svg", dark: "icons/dark/react.svg" } },
+  { type: "vue", dependencies: ["vue", "@vue/cli-service"], priority: 95, icon: { light: "icons/light/vue.svg", dark: "icons/dark/vue.svg" } },
+  { type: "angular", dependencies: ["@angular/core"], priority: 90, icon: { light: "icons/light/angular.svg", dark: "icons/dark/angular.svg" } },
+  { type: "svelte", dependencies: ["svelte"], priority: 85, icon: "flame" },
+  { type: "electron", dependencies: ["electron"], priority: 80, icon: "device-desktop" },
+  { type: "deno", markers: ["deno.json", "deno.jsonc"], priority: 78, icon: "symbol-namespace" },
+  { type: "bun", markers: ["bun.lockb", "bun.lock", "bunfig.toml"], priority: 77, icon: "zap" },
+  { type: "nodejs", markers: ["package.json"], priority: 75, icon: { light: "icons/light/nodejs.svg", dark: "icons/dark/nodejs.svg" } },
+  { type: "python", markers: ["requirements.txt", "setup.py", "pyproject.toml", "Pipfile"], extensions: [".py"], priority: 70, icon: { light: "icons/light/python.svg", dark: "icons/dark/python.svg" } },
+  { type: "rust", markers: ["Cargo.toml"], extensions: [".rs"], priority: 68, icon: "settings-gear" },
+  { type: "kotlin", markers: ["src/main/kotlin"], extensions: [".kt"], priority: 66, icon: "symbol-class" },
+  { type: "java", markers: ["pom.xml", "build.gradle", "build.gradle.kts"], extensions: [".java"], priority: 65, icon: { light: "icons/light/java.svg", dark: "icons/dark/java.svg" } },
+  { type: "csharp", markers: ["*.csproj", "*.sln"], extensions: [".cs"], priority: 60, icon: { light: "icons/light/csharp.svg", dark: "icons/dark/csharp.svg" } },
+  { type: "php", markers: ["composer.json"], extensions: [".php"], priority: 55, icon: { light: "icons/light/php.svg", dark: "icons/dark/php.svg" } },
+  { type: "elixir", markers: ["mix.exs"], extensions: [".ex", ".exs"], priority: 52, icon: "beaker" },
+  { type: "ruby", markers: ["Gemfile"], extensions: [".rb"], priority: 50, icon: "ruby" },
+  { type: "go", markers: ["go.mod"], extensions: [".go"], priority: 45, icon: { light: "icons/light/go.svg", dark: "icons/dark/go.svg" } },
+  { type: "flutter", markers: ["pubspec.yaml"], extensions: [".dart"], priority: 40, icon: { light: "icons/light/flutter.svg", dark: "icons/dark/flutter.svg" } },
+  { type: "unity", allMarkers: ["ProjectSettings", "Assets"], priority: 35, icon: "symbol-misc" },
+  { type: "terraform", markers: ["*.tf"], priority: 32, icon: "cloud" },
+  { type: "docker", markers: ["Dockerfile", "docker-compose.yml"], priority: 30, icon: { light: "icons/light/docker.svg", dark: "icons/dark/docker.svg" } },
+  { type: "nix", markers: ["flake.nix", "shell.nix", "default.nix"], priority: 25, icon: "package" },
+  { type: "git", markers: [".git"], priority: 0, icon: "source-control" }
+];
+
+let cachedRules: DetectionRule[] | undefined;
+
+function isValidRule(rule: any): rule is DetectionRule {
+  const isStringArray = (value: any) => value === undefined || (Array.isArray(value) && value.every((v: any) => typeof v === "string"));
+  return !!rule
+    && typeof rule.type === "string" && rule.type.length > 0
+    && isStringArray(rule.markers) && isStringArray(rule.allMarkers)
+    && isStringArray(rule.extensions) && isStringArray(rule.dependencies)
+    && !!(rule.markers?.length || rule.allMarkers?.length || rule.extensions?.length || rule.dependencies?.length);
+}
+
+/**
+ * Built-in rules merged with messProjectManager.detectionRules, highest
+ * priority first. A user rule with a built-in type replaces that rule.
+ */
+export function getDetectionRules(): DetectionRule[] {
+  if (!cachedRules) {
+    const configured = vscode.workspace.getConfiguration("messProjectManager").get<any[]>("detectionRules", []);
+    const userRules = (Array.isArray(configured) ? configured : []).filter(rule => {
+      if (!isValidRule(rule)) {
+        console.warn("Ignoring invalid project detection rule:", rule);
+        return false;
+      }
+      return true;
+    });
+
+    const userTypes = new Set(userRules.map(rule => rule.type));
+    // Stable sort: on equal priority user rules come before built-ins
+    cachedRules = [...userRules, ...BUILTIN_DETECTION_RULES.filter(rule => !userTypes.has(rule.type))]
+      .sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+  }
+  return cachedRules;
+}
+
+export function getDetectionRule(type: string): DetectionRule | undefined {
+  return getDetectionRules().find(rule => rule.type === type);
+}
+
+// Called when the detectionRules setting changes
+export function resetDetectionRules(): void {
+  cachedRules = undefined;
+}
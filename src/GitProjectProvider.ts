@@ -1,20 +1,17 @@
 import * as vscode from "vscode";
 import * as path from "path";
-import * as fs from "fs";
 import { ProjectProvider, ProjectItem } from "./ProjectProvider";
+import { ProjectStore } from "./ProjectStore";
+import { isWorkspaceFile } from "./WorkspaceProject";
+import { GitInfo, GitStatusCache, isGitRepository } from "./GitStatus";
+import { getCategoryPath } from "./CategoryTree";
+import { ProjectUsageTracker } from "./ProjectUsage";
+import { ProjectSortMode, sortProjects } from "./ProjectSort";
 import { exec } from "child_process";
 import { promisify } from "util";
 
 const execAsync = promisify(exec);
 
-interface GitInfo {
-  branch: string;
-  hasChanges: boolean;
-  ahead: number;
-  behind: number;
-  remoteUrl?: string;
-}
-
 export class GitProjectItem extends ProjectItem {
   constructor(
     label: string,
@@ -26,9 +23,11 @@ export class GitProjectItem extends ProjectItem {
     isCategory: boolean = false,
     favorite: boolean = false,
     projectType?: string,
-    public readonly gitInfo?: GitInfo
+    public readonly gitInfo?: GitInfo,
+    tags: string[] = [],
+    categoryPath?: string
   ) {
-    super(label, collapsibleState, fullPath, children, active, category, isCategory, favorite, projectType);
+    super(label, collapsibleState, fullPath, children, active, category, isCategory, favorite, projectType, tags, categoryPath);
     
     if (gitInfo && fullPath && children.length === 0) {
       this.updateWithGitInfo(gitInfo);
@@ -36,7 +35,7 @@ export class GitProjectItem extends ProjectItem {
   }
 
   private updateWithGitInfo(gitInfo: GitInfo) {
-    // Update description with Git info
+    // Update description with Git info; the decoration badges repeat it next to the label
     if (this.description) {
       this.description += ` • ${gitInfo.branch}`;
       
@@ -65,8 +64,37 @@ ${gitInfo.remoteUrl ? `Remote: ${gitInfo.remoteUrl}` : 'No remote configured'}`.
 }
 
 export class GitProjectProvider extends ProjectProvider {
-  constructor(context: vscode.ExtensionContext) {
-    super(context, "messProjectManagerGit", false);
+  // Set when only project icons changed, so the next build skips re-running git
+  private reuseGitStatus = false;
+
+  constructor(context: vscode.ExtensionContext, store: ProjectStore, usageTracker: ProjectUsageTracker) {
+    super(context, store, usageTracker, "messProjectManagerGit", false);
+  }
+
+  // Alphabetical, as this view was sorted before sort modes existed
+  protected getDefaultSortMode(): ProjectSortMode {
+    return "name";
+  }
+
+  refresh(): void {
+    this.reuseGitStatus = false;
+    super.refresh();
+  }
+
+  protected onProjectTypesChanged(): void {
+    super.refresh();
+    this.reuseGitStatus = true;
+  }
+
+  // Statuses were just read (by this view or in the background), show them without running git again
+  protected onGitStatusChanged(): void {
+    super.refresh();
+    this.reuseGitStatus = true;
+  }
+
+  protected onTimestampsChanged(): void {
+    super.refresh();
+    this.reuseGitStatus = true;
   }
 
   // Git Clone functionality
@@ -126,55 +154,47 @@ export class GitProjectProvider extends ProjectProvider {
   }
 
   private async addClonedProjectToConfig(name: string, projectPath: string): Promise<void> {
-    const configFile = path.join(this.context.globalStorageUri.fsPath, "projects.json");
-    
-    try {
-      const raw = fs.readFileSync(configFile, "utf-8");
-      const config = JSON.parse(raw);
-      
-      if (!config.projects) config.projects = [];
-      
-      // Check if project already exists
-      const existingProject = config.projects.find((p: any) => p.path === projectPath);
-      if (existingProject) {
-        vscode.window.showWarningMessage(`Project "${name}" already exists in your project list.`);
-        return;
-      }
-      
-      config.projects.push({ label: name, path: projectPath, active: true });
-      fs.writeFileSync(configFile, JSON.stringify(config, null, 2));
-      
-      // Refresh all views
-      this.refresh();
-      vscode.commands.executeCommand('messProjectManager.refreshProjects');
-      
+    // Check if project already exists
+    if (this.store.getProject(projectPath)) {
+      vscode.window.showWarningMessage(`Project "${name}" already exists in your project list.`);
+      return;
+    }
+
+    // The store notifies every view, no manual refresh needed
+    if (this.store.addProject({ label: name, path: projectPath, active: true })) {
       vscode.window.showInformationMessage(`✅ Added "${name}" to your projects!`);
-    } catch (error: any) {
-      vscode.window.showErrorMessage(`Failed to add project to configuration: ${error.message}`);
     }
   }
 
   async getChildren(element?: ProjectItem): Promise<ProjectItem[]> {
     if (!element) {
       const gitProjects = await this.buildGitTree();
-      return gitProjects;
+      return this.withConfigError(gitProjects);
     }
-    return Promise.resolve(element.children);
+    return super.getChildren(element);
   }
 
   private async buildGitTree(): Promise<ProjectItem[]> {
-    const allProjects = this.getFilteredProjects();
+    const sortMode = this.getSortMode();
+    const allProjects = sortProjects(this.getVisibleProjects(), sortMode, this.getSortContext());
     const gitProjects: GitProjectItem[] = [];
 
     // Process each project to check for Git repositories
     for (const project of allProjects) {
-      if (await this.isGitRepository(project.path)) {
-        const gitInfo = await this.getGitInfo(project.path);
+      const isWorkspace = isWorkspaceFile(project.path);
+      if (isWorkspace || await isGitRepository(project.path)) {
+        const gitStatus = GitStatusCache.getInstance();
+        const gitInfo = this.reuseGitStatus && gitStatus.has(project.path)
+          ? gitStatus.get(project.path)
+          : await gitStatus.fetch(project.path);
+        // Workspaces without any member repository stay out of the Git view
+        if (isWorkspace && !gitInfo) continue;
+
         const projectType = this.detectProjectType(project.path);
         
         const gitItem = new GitProjectItem(
           project.label,
-          vscode.TreeItemCollapsibleState.None,
+          this.hasPackages(project.path) ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None,
           project.path,
           [],
           project.active,
@@ -182,7 +202,9 @@ export class GitProjectProvider extends ProjectProvider {
           false,
           project.favorite || false,
           projectType,
-          gitInfo
+          gitInfo,
+          project.tags || [],
+          project.category ? getCategoryPath(this.store.getCategories(), project.category) : undefined
         );
 
         // Set custom icon based on project type and Git status
@@ -193,87 +215,23 @@ export class GitProjectProvider extends ProjectProvider {
       }
     }
 
-    // Sort by repository status (dirty repos first, then by name)
-    gitProjects.sort((a, b) => {
-      if (a.gitInfo?.hasChanges && !b.gitInfo?.hasChanges) return -1;
-      if (!a.gitInfo?.hasChanges && b.gitInfo?.hasChanges) return 1;
-      return a.label.localeCompare(b.label);
-    });
-
-    return gitProjects;
-  }
-
-  private async isGitRepository(projectPath: string): Promise<boolean> {
-    try {
-      const gitPath = path.join(projectPath, '.git');
-      const stats = fs.statSync(gitPath);
-      return stats.isDirectory() || stats.isFile(); // .git can be a file in case of git worktrees
-    } catch (error) {
-      return false;
-    }
-  }
-
-  private async getGitInfo(projectPath: string): Promise<GitInfo | undefined> {
-    try {
-      // Get current branch
-      const { stdout: branchOutput } = await execAsync('git branch --show-current', { 
-        cwd: projectPath,
-        timeout: 5000
-      });
-      const branch = branchOutput.trim() || 'HEAD';
-
-      // Check for uncommitted changes
-      const { stdout: statusOutput } = await execAsync('git status --porcelain', { 
-        cwd: projectPath,
-        timeout: 5000
+    // The default order puts dirty repos first (the sort is stable, so each group stays alphabetical);
+    // any other sort mode the user picked is kept as it is
+    if (sortMode === this.getDefaultSortMode()) {
+      gitProjects.sort((a, b) => {
+        if (a.gitInfo?.hasChanges && !b.gitInfo?.hasChanges) return -1;
+        if (!a.gitInfo?.hasChanges && b.gitInfo?.hasChanges) return 1;
+        return 0;
       });
-      const hasChanges = statusOutput.trim().length > 0;
-
-      // Get ahead/behind info
-      let ahead = 0, behind = 0;
-      try {
-        const { stdout: aheadBehindOutput } = await execAsync('git rev-list --count --left-right @{upstream}...HEAD', { 
-          cwd: projectPath,
-          timeout: 5000
-        });
-        const match = aheadBehindOutput.trim().match(/(\d+)\s+(\d+)/);
-        if (match) {
-          behind = parseInt(match[1], 10);
-          ahead = parseInt(match[2], 10);
-        }
-      } catch (error) {
-        // No upstream branch configured
-      }
-
-      // Get remote URL
-      let remoteUrl: string | undefined;
-      try {
-        const { stdout: remoteOutput } = await execAsync('git remote get-url origin', { 
-          cwd: projectPath,
-          timeout: 5000
-        });
-        remoteUrl = remoteOutput.trim();
-      } catch (error) {
-        // No remote configured
-      }
-
-      return {
-        branch,
-        hasChanges,
-        ahead,
-        behind,
-        remoteUrl
-      };
-    } catch (error) {
-      console.error(`Failed to get Git info for ${projectPath}:`, error);
-      return undefined;
     }
+
+    return gitProjects;
   }
 
   // Git Pull functionality
   async pullRepository(projectItem: GitProjectItem): Promise<void> {
     const projectPath = projectItem.getFullPath();
-    if (!projectPath || !await this.isGitRepository(projectPath)) {
+    if (!projectPath || !await isGitRepository(projectPath)) {
       vscode.window.showErrorMessage("❌ Not a Git repository");
       return;
     }
@@ -307,7 +265,7 @@ export class GitProjectProvider extends ProjectProvider {
   // Git Status functionality
   async showGitStatus(projectItem: GitProjectItem): Promise<void> {
     const projectPath = projectItem.getFullPath();
-    if (!projectPath || !await this.isGitRepository(projectPath)) {
+    if (!projectPath || !await isGitRepository(projectPath)) {
       vscode.window.showErrorMessage("❌ Not a Git repository");
       return;
     }
@@ -423,38 +381,4 @@ export class GitProjectProvider extends ProjectProvider {
     // Otherwise, use the regular project type icon from parent class
     return this.getProjectIcon(projectType, false);
   }
-
-  private getFilteredProjects() {
-    // Get all projects from the parent class
-    const filePath = path.join(this.context.globalStorageUri.fsPath, "projects.json");
-    if (fs.existsSync(filePath)) {
-      try {
-        const raw = fs.readFileSync(filePath, "utf-8");
-        const parsed = JSON.parse(raw);
-        let projects = parsed.projects || [];
-        
-        // Filter by active status
-        if (!this.getShowInactiveProjects()) {
-          projects = projects.filter((project: any) => project.active === true);
-        }
-        
-        // Filter by search term
-        const searchFilter = this.getSearchFilter();
-        if (searchFilter) {
-          projects = projects.filter((project: any) => {
-            const nameMatch = project.label.toLowerCase().includes(searchFilter);
-            const pathMatch = project.path.toLowerCase().includes(searchFilter);
-            return nameMatch || pathMatch;
-          });
-        }
-        
-        return projects;
-      } catch (e) {
-        console.error("Failed to parse projects.json", e);
-        return [];
-      }
-    } else {
-      return [];
-    }
-  }
-}
\ No newline at end of file
+}
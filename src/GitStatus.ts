@@ -0,0 +1,301 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import * as fs from "fs";
+import { exec } from "child_process";
+import { promisify } from "util";
+import { isRemotePath } from "./RemoteProject";
+import { isWorkspaceFile, readWorkspaceFolders } from "./WorkspaceProject";
+
+const execAsync = promisify(exec);
+
+export interface GitInfo {
+  branch: string;
+  hasChanges: boolean;
+  ahead: number;
+  behind: number;
+  remoteUrl?: string;
+}
+
+/**
+ * Current branch read straight from .git/HEAD - cheap enough for quick picks,
+ * where spawning git for every project would be too slow
+ */
+export function readGitBranch(projectPath: string): string | undefined {
+  if (isRemotePath(projectPath)) return undefined;
+  try {
+    const gitDir = resolveGitDir(projectPath);
+    if (!gitDir) return undefined;
+    const head = fs.readFileSync(path.join(gitDir, "HEAD"), "utf-8").trim();
+    const ref = head.match(/^ref:\s*refs\/heads\/(.+)$/);
+    return ref ? ref[1] : head.substring(0, 7);
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * URL of the "origin" remote (or the first remote) read from .git/config,
+ * without spawning git
+ */
+export function readGitRemoteUrl(projectPath: string): string | undefined {
+  if (isRemotePath(projectPath)) return undefined;
+  try {
+    const gitDir = resolveGitDir(projectPath);
+    if (!gitDir) return undefined;
+    // Linked worktrees keep their config in the main repository's git dir
+    const commonDir = fs.existsSync(path.join(gitDir, "commondir"))
+      ? path.resolve(gitDir, fs.readFileSync(path.join(gitDir, "commondir"), "utf-8").trim())
+      : gitDir;
+    const config = fs.readFileSync(path.join(commonDir, "config"), "utf-8");
+    const remotes = [...config.matchAll(/^\[remote "([^"]+)"\]([^[]*)/gm)]
+      .map(match => ({ name: match[1], url: match[2].match(/^\s*url\s*=\s*(.+)$/m)?.[1].trim() }))
+      .filter(remote => !!remote.url);
+    return (remotes.find(remote => remote.name === "origin") || remotes[0])?.url;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+// Commit time of HEAD in milliseconds, undefined outside a Git repository or before the first commit
+export async function readLastCommitTime(projectPath: string): Promise<number | undefined> {
+  if (!await isGitRepository(projectPath)) return undefined;
+  try {
+    const { stdout } = await execAsync('git log -1 --format=%ct', {
+      cwd: projectPath,
+      timeout: 5000
+    });
+    const seconds = parseInt(stdout.trim(), 10);
+    return isNaN(seconds) ? undefined : seconds * 1000;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+// Worktrees and submodules have a .git file pointing at the real git dir.
+// Throws when the folder has no .git at all.
+function resolveGitDir(projectPath: string): string | undefined {
+  const gitDir = path.join(projectPath, ".git");
+  if (fs.statSync(gitDir).isFile()) {
+    const match = fs.readFileSync(gitDir, "utf-8").match(/^gitdir:\s*(.+)$/m);
+    return match ? path.resolve(projectPath, match[1].trim()) : undefined;
+  }
+  return gitDir;
+}
+
+export async function isGitRepository(projectPath: string): Promise<boolean> {
+  // Git runs locally, remote projects are left out of the Git view
+  if (isRemotePath(projectPath)) {
+    return false;
+  }
+  try {
+    const gitPath = path.join(projectPath, '.git');
+    const stats = fs.statSync(gitPath);
+    return stats.isDirectory() || stats.isFile(); // .git can be a file in case of git worktrees
+  } catch (error) {
+    return false;
+  }
+}
+
+export async function getGitInfo(projectPath: string): Promise<GitInfo | undefined> {
+  try {
+    // Get current branch
+    const { stdout: branchOutput } = await execAsync('git branch --show-current', {
+      cwd: projectPath,
+      timeout: 5000
+    });
+    const branch = branchOutput.trim() || 'HEAD';
+
+    // Check for uncommitted changes
+    const { stdout: statusOutput } = await execAsync('git status --porcelain', {
+      cwd: projectPath,
+      timeout: 5000
+    });
+    const hasChanges = statusOutput.trim().length > 0;
+
+    // Get ahead/behind info
+    let ahead = 0, behind = 0;
+    try {
+      const { stdout: aheadBehindOutput } = await execAsync('git rev-list --count --left-right @{upstream}...HEAD', {
+        cwd: projectPath,
+        timeout: 5000
+      });
+      const match = aheadBehindOutput.trim().match(/(\d+)\s+(\d+)/);
+      if (match) {
+        behind = parseInt(match[1], 10);
+        ahead = parseInt(match[2], 10);
+      }
+    } catch (error) {
+      // No upstream branch configured
+    }
+
+    // Get remote URL
+    let remoteUrl: string | undefined;
+    try {
+      const { stdout: remoteOutput } = await execAsync('git remote get-url origin', {
+        cwd: projectPath,
+        timeout: 5000
+      });
+      remoteUrl = remoteOutput.trim();
+    } catch (error) {
+      // No remote configured
+    }
+
+    return {
+      branch,
+      hasChanges,
+      ahead,
+      behind,
+      remoteUrl
+    };
+  } catch (error) {
+    console.error(`Failed to get Git info for ${projectPath}:`, error);
+    return undefined;
+  }
+}
+
+// Combined status of every member repository of a .code-workspace file
+export async function getWorkspaceGitInfo(workspaceFile: string): Promise<GitInfo | undefined> {
+  const infos: GitInfo[] = [];
+  for (const folder of readWorkspaceFolders(workspaceFile)) {
+    if (await isGitRepository(folder.path)) {
+      const info = await getGitInfo(folder.path);
+      if (info) infos.push(info);
+    }
+  }
+  if (infos.length === 0) return undefined;
+
+  const branches = [...new Set(infos.map(info => info.branch))];
+  const remotes = [...new Set(infos.map(info => info.remoteUrl).filter(url => !!url))];
+  return {
+    branch: branches.join(", "),
+    hasChanges: infos.some(info => info.hasChanges),
+    ahead: infos.reduce((sum, info) => sum + info.ahead, 0),
+    behind: infos.reduce((sum, info) => sum + info.behind, 0),
+    remoteUrl: remotes.length === 1 ? remotes[0] : undefined
+  };
+}
+
+// Statuses older than this are looked up again when the window regains focus
+const STATUS_MAX_AGE = 30 * 1000;
+
+/**
+ * Last known Git status per project, shared by every view. Lookups never
+ * block: unknown projects are queued and onDidChange fires once they are in.
+ * Cached statuses are re-read when the window regains focus and when the
+ * HEAD or index of an open repository changes (see invalidate()).
+ */
+export class GitStatusCache {
+  private static instance: GitStatusCache;
+  // undefined value = looked up, not a Git repository
+  private statuses: Map<string, GitInfo | undefined> = new Map();
+  private fetchedAt: Map<string, number> = new Map();
+  private queued: Set<string> = new Set();
+  private changeTimer: NodeJS.Timeout | undefined;
+  private _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+  // Every status that changed, fetched ones included - for decorations, which views don't redraw
+  private _onDidUpdateStatus = new vscode.EventEmitter<string>();
+  readonly onDidUpdateStatus: vscode.Event<string> = this._onDidUpdateStatus.event;
+
+  public static getInstance(): GitStatusCache {
+    if (!GitStatusCache.instance) {
+      GitStatusCache.instance = new GitStatusCache();
+    }
+    return GitStatusCache.instance;
+  }
+
+  has(projectPath: string): boolean {
+    return this.statuses.has(projectPath);
+  }
+
+  get(projectPath: string): GitInfo | undefined {
+    return this.statuses.get(projectPath);
+  }
+
+  /**
+   * Looks the status up in the background if it is not cached yet
+   */
+  request(projectPath: string): void {
+    if (this.statuses.has(projectPath)) return;
+    this.enqueue(projectPath);
+  }
+
+  /**
+   * Looks a cached status up again in the background, keeping the old one
+   * until the new one is in
+   */
+  invalidate(projectPath: string): void {
+    if (this.statuses.has(projectPath)) {
+      this.enqueue(projectPath);
+    }
+  }
+
+  // Re-reads every cached status older than STATUS_MAX_AGE
+  refreshStale(): void {
+    const now = Date.now();
+    for (const projectPath of this.statuses.keys()) {
+      if (now - (this.fetchedAt.get(projectPath) || 0) >= STATUS_MAX_AGE) {
+        this.enqueue(projectPath);
+      }
+    }
+  }
+
+  /**
+   * Reads the current status and caches it. Listeners hear about it (batched)
+   * when it differs from what was cached.
+   */
+  async fetch(projectPath: string): Promise<GitInfo | undefined> {
+    const info = await this.lookup(projectPath);
+    this.store(projectPath, info);
+    return info;
+  }
+
+  private enqueue(projectPath: string): void {
+    if (this.queued.has(projectPath)) return;
+    this.queued.add(projectPath);
+    // Batch everything requested during one tree build into a single drain
+    if (this.queued.size === 1) {
+      setTimeout(() => this.drainQueue(), 0);
+    }
+  }
+
+  private async drainQueue(): Promise<void> {
+    while (this.queued.size > 0) {
+      const [projectPath] = this.queued;
+      const info = await this.lookup(projectPath);
+      this.queued.delete(projectPath);
+      this.store(projectPath, info);
+    }
+  }
+
+  private async lookup(projectPath: string): Promise<GitInfo | undefined> {
+    if (isWorkspaceFile(projectPath)) {
+      return getWorkspaceGitInfo(projectPath);
+    }
+    return await isGitRepository(projectPath) ? getGitInfo(projectPath) : undefined;
+  }
+
+  // Returns whether the cached status actually changed
+  private store(projectPath: string, info: GitInfo | undefined): boolean {
+    const changed = !this.statuses.has(projectPath)
+      || JSON.stringify(this.statuses.get(projectPath)) !== JSON.stringify(info);
+    this.statuses.set(projectPath, info);
+    this.fetchedAt.set(projectPath, Date.now());
+    if (changed) {
+      this._onDidUpdateStatus.fire(projectPath);
+      this.scheduleChange();
+    }
+    return changed;
+  }
+
+  // Many statuses come in one after another; views rebuild once they settle
+  private scheduleChange(): void {
+    if (this.changeTimer) {
+      clearTimeout(this.changeTimer);
+    }
+    this.changeTimer = setTimeout(() => {
+      this.changeTimer = undefined;
+      this._onDidChange.fire();
+    }, 300);
+  }
+}
@@ -0,0 +1,253 @@
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Read-only access to a LevelDB folder as written by Chromium/Electron apps
+ * (IndexedDB, Local Storage). Only what is needed to list the live entries:
+ * the write-ahead logs, sorted tables with snappy compression, and sequence
+ * numbers so that later writes and deletions win. Checksums are not verified.
+ */
+
+const LOG_BLOCK_SIZE = 32768;
+const TABLE_FOOTER_SIZE = 48;
+const TABLE_MAGIC = Buffer.from([0x57, 0xfb, 0x80, 0x8b, 0x24, 0x75, 0x47, 0xdb]);
+
+// Log record fragments and entry types
+const FULL_RECORD = 1;
+const FIRST_FRAGMENT = 2;
+const MIDDLE_FRAGMENT = 3;
+const LAST_FRAGMENT = 4;
+const DELETION = 0;
+const VALUE = 1;
+
+interface Entry {
+  sequence: number;
+  value: Buffer | undefined;
+}
+
+class Reader {
+  constructor(public buffer: Buffer, public offset = 0) {}
+
+  get done(): boolean {
+    return this.offset >= this.buffer.length;
+  }
+
+  varint(): number {
+    let result = 0;
+    let multiplier = 1;
+    for (;;) {
+      if (this.offset >= this.buffer.length) {
+        throw new Error("truncated varint");
+      }
+      const byte = this.buffer[this.offset++];
+      result += (byte & 0x7f) * multiplier;
+      if (byte < 0x80) return result;
+      multiplier *= 128;
+    }
+  }
+
+  bytes(length: number): Buffer {
+    if (this.offset + length > this.buffer.length) {
+      throw new Error("truncated record");
+    }
+    const slice = this.buffer.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  fixed32(): number {
+    const value = this.buffer.readUInt32LE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  // Sequence numbers are 56 bits; real databases stay far below 2^53
+  fixed64(): number {
+    const low = this.fixed32();
+    const high = this.fixed32();
+    return high * 0x100000000 + low;
+  }
+}
+
+// Snappy block format: varint output length, then literals and back-references into the output
+function decompressSnappy(input: Buffer): Buffer {
+  const reader = new Reader(input);
+  const output = Buffer.alloc(reader.varint());
+  let written = 0;
+
+  while (!reader.done) {
+    const tag = input[reader.offset++];
+    let length: number;
+    let offset: number;
+
+    switch (tag & 3) {
+      case 0: {
+        length = (tag >> 2) + 1;
+        if (length > 60) {
+          const extraBytes = length - 60;
+          length = input.readUIntLE(reader.offset, extraBytes) + 1;
+          reader.offset += extraBytes;
+        }
+        reader.bytes(length).copy(output, written);
+        written += length;
+        continue;
+      }
+      case 1:
+        length = ((tag >> 2) & 7) + 4;
+        offset = ((tag >> 5) << 8) | input[reader.offset++];
+        break;
+      case 2:
+        length = (tag >> 2) + 1;
+        offset = input.readUInt16LE(reader.offset);
+        reader.offset += 2;
+        break;
+      default:
+        length = (tag >> 2) + 1;
+        offset = reader.fixed32();
+        break;
+    }
+
+    if (offset === 0 || offset > written || written + length > output.length) {
+      throw new Error("corrupt snappy data");
+    }
+    // Copies may overlap their own output, so go byte by byte
+    for (let i = 0; i < length; i++, written++) {
+      output[written] = output[written - offset];
+    }
+  }
+
+  if (written !== output.length) {
+    throw new Error("corrupt snappy data");
+  }
+  return output;
+}
+
+function remember(entries: Map<string, Entry>, key: Buffer, sequence: number, value: Buffer | undefined): void {
+  const id = key.toString("latin1");
+  const known = entries.get(id);
+  if (!known || known.sequence < sequence) {
+    entries.set(id, { sequence, value });
+  }
+}
+
+// A write-ahead log: 32 KB blocks of (possibly fragmented) records, each record a write batch
+function readLog(content: Buffer, entries: Map<string, Entry>): void {
+  let pending: Buffer[] = [];
+
+  for (let blockStart = 0; blockStart < content.length; blockStart += LOG_BLOCK_SIZE) {
+    const block = content.subarray(blockStart, blockStart + LOG_BLOCK_SIZE);
+    let offset = 0;
+    while (offset + 7 <= block.length) {
+      const length = block.readUInt16LE(offset + 4);
+      const type = block[offset + 6];
+      const data = block.subarray(offset + 7, offset + 7 + length);
+      offset += 7 + length;
+      if (type === 0 && length === 0) break; // Zero-filled block tail
+
+      if (type === FULL_RECORD) {
+        readWriteBatch(data, entries);
+        pending = [];
+      } else if (type === FIRST_FRAGMENT) {
+        pending = [data];
+      } else if (type === MIDDLE_FRAGMENT && pending.length > 0) {
+        pending.push(data);
+      } else if (type === LAST_FRAGMENT && pending.length > 0) {
+        pending.push(data);
+        readWriteBatch(Buffer.concat(pending), entries);
+        pending = [];
+      }
+    }
+  }
+}
+
+function readWriteBatch(batch: Buffer, entries: Map<string, Entry>): void {
+  if (batch.length < 12) return;
+  const reader = new Reader(batch);
+  const sequence = reader.fixed64();
+  const count = reader.fixed32();
+
+  for (let i = 0; i < count && !reader.done; i++) {
+    const type = batch[reader.offset++];
+    const key = reader.bytes(reader.varint());
+    if (type === VALUE) {
+      remember(entries, key, sequence + i, reader.bytes(reader.varint()));
+    } else if (type === DELETION) {
+      remember(entries, key, sequence + i, undefined);
+    } else {
+      return;
+    }
+  }
+}
+
+function readBlock(content: Buffer, handle: Reader): Buffer {
+  const offset = handle.varint();
+  const size = handle.varint();
+  const data = content.subarray(offset, offset + size);
+  const compression = content[offset + size];
+  if (compression === 0) return data;
+  if (compression === 1) return decompressSnappy(data);
+  throw new Error(`unsupported block compression ${compression}`);
+}
+
+// Key/value pairs of one block: prefix-compressed keys followed by the restart point array
+function* blockEntries(block: Buffer): Generator<[Buffer, Buffer]> {
+  const restarts = block.readUInt32LE(block.length - 4);
+  const reader = new Reader(block.subarray(0, block.length - 4 * (restarts + 1)));
+  let key = Buffer.alloc(0);
+
+  while (!reader.done) {
+    const shared = reader.varint();
+    const unshared = reader.varint();
+    const valueLength = reader.varint();
+    key = Buffer.concat([key.subarray(0, shared), reader.bytes(unshared)]);
+    yield [key, reader.bytes(valueLength)];
+  }
+}
+
+// A sorted table: data blocks listed by the index block, whose handle sits in the footer
+function readTable(content: Buffer, entries: Map<string, Entry>): void {
+  if (content.length < TABLE_FOOTER_SIZE || !content.subarray(content.length - 8).equals(TABLE_MAGIC)) {
+    throw new Error("not a LevelDB table");
+  }
+  const footer = new Reader(content, content.length - TABLE_FOOTER_SIZE);
+  footer.varint(); // Metaindex offset
+  footer.varint(); // Metaindex size
+  const index = readBlock(content, footer);
+
+  for (const [, handle] of blockEntries(index)) {
+    for (const [internalKey, value] of blockEntries(readBlock(content, new Reader(handle)))) {
+      if (internalKey.length < 8) continue;
+      const trailer = new Reader(internalKey, internalKey.length - 8).fixed64();
+      const type = trailer % 256;
+      const userKey = internalKey.subarray(0, internalKey.length - 8);
+      remember(entries, userKey, Math.floor(trailer / 256), type === VALUE ? value : undefined);
+    }
+  }
+}
+
+/**
+ * Values of all live keys in a LevelDB folder. Files that cannot be read
+ * (e.g. removed by a compaction running right now) are skipped.
+ */
+export async function readLevelDbValues(databasePath: string): Promise<Buffer[]> {
+  const entries = new Map<string, Entry>();
+  const files = (await fs.promises.readdir(databasePath)).filter(file => /\.(log|ldb|sst)$/.test(file));
+
+  for (const file of files) {
+    let content: Buffer;
+    try {
+      content = await fs.promises.readFile(path.join(databasePath, file));
+    } catch (error) {
+      continue;
+    }
+    if (file.endsWith(".log")) {
+      readLog(content, entries);
+    } else {
+      readTable(content, entries);
+    }
+  }
+
+  return [...entries.values()]
+    .map(entry => entry.value)
+    .filter((value): value is Buffer => !!value);
+}
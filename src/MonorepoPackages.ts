@@ -0,0 +1,262 @@
+import * as path from "path";
+import * as fs from "fs";
+import { readPackageJsonAsync } from "./ProjectTypeDetector";
+import { globToRegExp } from "./Glob";
+
+export type PackageManager = "npm" | "yarn" | "pnpm" | "bun" | "cargo" | "go";
+
+export interface MonorepoPackage {
+  name: string;
+  path: string;
+  manager: PackageManager;
+}
+
+// Files that declare workspace members; their mtimes are part of a project's cache signature
+export const MONOREPO_MANIFEST_FILES = ["package.json", "pnpm-workspace.yaml", "lerna.json", "nx.json", "Cargo.toml", "go.work"];
+
+// Nx projects without explicit workspaces follow this layout by convention
+const NX_DEFAULT_PATTERNS = ["apps/*", "libs/*", "packages/*"];
+const MAX_GLOBSTAR_DEPTH = 3;
+
+async function readText(filePath: string): Promise<string | undefined> {
+  try {
+    return await fs.promises.readFile(filePath, "utf-8");
+  } catch (error) {
+    return undefined;
+  }
+}
+
+async function listSubfolders(folderPath: string): Promise<string[]> {
+  try {
+    const entries = await fs.promises.readdir(folderPath, { withFileTypes: true });
+    return entries
+      .filter(entry => entry.isDirectory() && entry.name !== "node_modules" && !entry.name.startsWith("."))
+      .map(entry => entry.name);
+  } catch (error) {
+    return [];
+  }
+}
+
+function normalizePattern(pattern: string): string {
+  return pattern.trim().replace(/\\/g, "/").replace(/^\.\//, "").replace(/\/+$/, "");
+}
+
+async function expandSegments(folderPath: string, segments: string[], relativePath: string, results: Set<string>, depth: number = 0): Promise<void> {
+  if (segments.length === 0) {
+    results.add(relativePath);
+    return;
+  }
+
+  const [segment, ...rest] = segments;
+  const join = (name: string) => relativePath ? `${relativePath}/${name}` : name;
+
+  if (segment === "**") {
+    await expandSegments(folderPath, rest, relativePath, results, depth);
+    if (depth >= MAX_GLOBSTAR_DEPTH) return;
+    for (const name of await listSubfolders(folderPath)) {
+      await expandSegments(path.join(folderPath, name), segments, join(name), results, depth + 1);
+    }
+  } else if (/[*?]/.test(segment)) {
+    const pattern = globToRegExp(segment);
+    for (const name of await listSubfolders(folderPath)) {
+      if (pattern.test(name)) {
+        await expandSegments(path.join(folderPath, name), rest, join(name), results, depth);
+      }
+    }
+  } else if (segment === "." || segment === "") {
+    await expandSegments(folderPath, rest, relativePath, results, depth);
+  } else {
+    await expandSegments(path.join(folderPath, segment), rest, join(segment), results, depth);
+  }
+}
+
+/**
+ * Expands workspace globs ("packages/*", "!packages/legacy") into root-relative
+ * folder paths. Only folders are matched, node_modules and dot folders are skipped.
+ */
+async function expandPatterns(rootPath: string, patterns: string[]): Promise<string[]> {
+  const includes = patterns.filter(p => !p.trim().startsWith("!")).map(normalizePattern);
+  const excludes = patterns.filter(p => p.trim().startsWith("!")).map(p => globToRegExp(normalizePattern(p.trim().slice(1))));
+
+  const results = new Set<string>();
+  for (const pattern of includes) {
+    await expandSegments(rootPath, pattern.split("/"), "", results);
+  }
+  return [...results].filter(relativePath => relativePath && !excludes.some(exclude => exclude.test(relativePath)));
+}
+
+// "packages:" list of pnpm-workspace.yaml - just enough YAML for that one key
+function parsePnpmWorkspace(text: string): string[] {
+  const patterns: string[] = [];
+  let inPackages = false;
+  for (const line of text.split(/\r?\n/)) {
+    if (/^packages\s*:/.test(line)) {
+      inPackages = true;
+      continue;
+    }
+    if (inPackages) {
+      const item = line.match(/^\s+-\s*["']?([^"'#]+?)["']?\s*(#.*)?$/);
+      if (item) {
+        patterns.push(item[1]);
+      } else if (/^\S/.test(line)) {
+        inPackages = false;
+      }
+    }
+  }
+  return patterns;
+}
+
+// members = ["crates/*", "cli"] inside the [workspace] table of Cargo.toml
+function parseCargoWorkspace(text: string): string[] {
+  const workspace = text.match(/^\[workspace\]([\s\S]*?)(?=^\[|$(?![\s\S]))/m);
+  const members = workspace?.[1].match(/members\s*=\s*\[([\s\S]*?)\]/);
+  return members ? [...members[1].matchAll(/["']([^"']+)["']/g)].map(match => match[1]) : [];
+}
+
+// use ./a, or a use ( ... ) block, in go.work
+function parseGoWork(text: string): string[] {
+  const block = text.match(/^use\s*\(([\s\S]*?)\)/m);
+  const lines = block ? block[1].split(/\r?\n/) : (text.match(/^use\s+\S+/gm) || []).map(line => line.replace(/^use\s+/, ""));
+  return lines.map(line => line.replace(/\/\/.*$/, "").trim()).filter(line => !!line);
+}
+
+async function detectJavaScriptPackages(rootPath: string, files: string[]): Promise<MonorepoPackage[]> {
+  const patterns: string[] = [];
+  const packageJson = files.includes("package.json") ? await readPackageJsonAsync(rootPath) : undefined;
+  const workspaces = packageJson?.workspaces;
+  if (Array.isArray(workspaces)) {
+    patterns.push(...workspaces);
+  } else if (workspaces && Array.isArray(workspaces.packages)) {
+    patterns.push(...workspaces.packages);
+  }
+
+  if (files.includes("pnpm-workspace.yaml")) {
+    patterns.push(...parsePnpmWorkspace(await readText(path.join(rootPath, "pnpm-workspace.yaml")) || ""));
+  }
+  if (files.includes("lerna.json")) {
+    try {
+      const lerna = JSON.parse(await readText(path.join(rootPath, "lerna.json")) || "{}");
+      if (Array.isArray(lerna.packages)) patterns.push(...lerna.packages);
+    } catch (error) {
+      // Malformed lerna.json - rely on the other sources
+    }
+  }
+  if (files.includes("nx.json") && patterns.length === 0) {
+    patterns.push(...NX_DEFAULT_PATTERNS);
+  }
+  if (patterns.length === 0) return [];
+
+  const manager: PackageManager = files.includes("pnpm-workspace.yaml") || files.includes("pnpm-lock.yaml") ? "pnpm"
+    : files.includes("yarn.lock") ? "yarn"
+    : files.includes("bun.lockb") || files.includes("bun.lock") ? "bun"
+    : "npm";
+
+  const packages: MonorepoPackage[] = [];
+  for (const relativePath of await expandPatterns(rootPath, patterns.filter(p => typeof p === "string"))) {
+    const packagePath = path.join(rootPath, relativePath);
+    const memberJson = await readPackageJsonAsync(packagePath);
+    // Nx projects may only have a project.json
+    const nxProject = memberJson ? undefined : await readText(path.join(packagePath, "project.json"));
+    if (!memberJson && nxProject === undefined) continue;
+
+    let name = memberJson?.name;
+    if (!name && nxProject) {
+      try {
+        name = JSON.parse(nxProject).name;
+      } catch (error) {
+        // Fall back to the folder name
+      }
+    }
+    packages.push({ name: name || path.basename(packagePath), path: packagePath, manager });
+  }
+  return packages;
+}
+
+async function detectCargoPackages(rootPath: string, files: string[]): Promise<MonorepoPackage[]> {
+  if (!files.includes("Cargo.toml")) return [];
+  const members = parseCargoWorkspace(await readText(path.join(rootPath, "Cargo.toml")) || "");
+
+  const packages: MonorepoPackage[] = [];
+  for (const relativePath of await expandPatterns(rootPath, members)) {
+    const packagePath = path.join(rootPath, relativePath);
+    const manifest = await readText(path.join(packagePath, "Cargo.toml"));
+    if (manifest === undefined) continue;
+    const name = manifest.match(/^\[package\][\s\S]*?^name\s*=\s*"([^"]+)"/m)?.[1];
+    packages.push({ name: name || path.basename(packagePath), path: packagePath, manager: "cargo" });
+  }
+  return packages;
+}
+
+async function detectGoModules(rootPath: string, files: string[]): Promise<MonorepoPackage[]> {
+  let modulePaths: string[];
+  if (files.includes("go.work")) {
+    modulePaths = parseGoWork(await readText(path.join(rootPath, "go.work")) || "")
+      .map(relativePath => path.resolve(rootPath, relativePath));
+  } else if (!files.includes("go.mod")) {
+    // Multi-module layout without go.work: several go.mod files one level down
+    modulePaths = [];
+    for (const name of await listSubfolders(rootPath)) {
+      if (await readText(path.join(rootPath, name, "go.mod")) !== undefined) {
+        modulePaths.push(path.join(rootPath, name));
+      }
+    }
+    if (modulePaths.length < 2) return [];
+  } else {
+    return [];
+  }
+
+  const packages: MonorepoPackage[] = [];
+  for (const modulePath of modulePaths) {
+    const goMod = await readText(path.join(modulePath, "go.mod"));
+    if (goMod === undefined) continue;
+    const name = goMod.match(/^module\s+(\S+)/m)?.[1];
+    packages.push({ name: name || path.basename(modulePath), path: modulePath, manager: "go" });
+  }
+  return packages;
+}
+
+/**
+ * Member packages of a monorepo root: npm/yarn/pnpm/bun workspaces, Lerna,
+ * Nx and Turborepo (through the package manager's workspaces), Cargo
+ * workspaces and Go multi-module layouts. Returns [] for ordinary projects.
+ */
+export async function detectMonorepoPackages(rootPath: string): Promise<MonorepoPackage[]> {
+  let files: string[];
+  try {
+    files = await fs.promises.readdir(rootPath);
+  } catch (error) {
+    return [];
+  }
+
+  const packages = [
+    ...await detectJavaScriptPackages(rootPath, files),
+    ...await detectCargoPackages(rootPath, files),
+    ...await detectGoModules(rootPath, files)
+  ];
+
+  // The root itself may be listed as a member ("." in Cargo or go.work)
+  const seen = new Set<string>([path.resolve(rootPath)]);
+  return packages.filter(pkg => {
+    const resolved = path.resolve(pkg.path);
+    if (seen.has(resolved)) return false;
+    seen.add(resolved);
+    return true;
+  });
+}
+
+/**
+ * Commands offered by "Run Package Script": package.json scripts for
+ * JavaScript packages, the usual build/test commands for Cargo and Go
+ */
+export async function getPackageScripts(pkg: MonorepoPackage): Promise<{ name: string; command: string }[]> {
+  switch (pkg.manager) {
+    case "cargo":
+      return ["build", "test", "run", "check"].map(name => ({ name, command: `cargo ${name}` }));
+    case "go":
+      return ["build", "test", "vet"].map(name => ({ name, command: `go ${name} ./...` }));
+    default: {
+      const scripts = (await readPackageJsonAsync(pkg.path))?.scripts || {};
+      return Object.keys(scripts).map(name => ({ name, command: `${pkg.manager} run ${name}` }));
+    }
+  }
+}
@@ -338,6 +338,22 @@ export class NotesProvider implements vscode.TreeDataProvider<TreeItem> {
   }
 
   // Sheet management
+  getSheets(): Sheet[] {
+    return this.sheets.slice();
+  }
+
+  /**
+   * Creates or overwrites a sheet file as-is, e.g. one imported from a bundle.
+   * The first line of the content is the sheet name.
+   */
+  writeSheet(id: string, content: string): void {
+    if (!/^[\w.-]+$/.test(id)) {
+      throw new Error(`Invalid sheet id "${id}"`);
+    }
+    fs.writeFileSync(path.join(this.sheetsFolder, `${id}.txt`), content, 'utf8');
+    this.refresh();
+  }
+
   addSheet(name: string): void {
     const id = this.generateId();
     const defaultContent = `${name}\n\n    This is a header\n        > npm install\n        > npm run build\n\n    This also is a header\n        This is a sample note\n        All command can easy be copied and ran in Note view`;
@@ -422,7 +438,8 @@ export class NotesProvider implements vscode.TreeDataProvider<TreeItem> {
     }
   }
 
-  deleteSheet(id: string): void {
+  // notify is off when a sheet goes away through sync rather than by the user
+  deleteSheet(id: string, notify: boolean = true): void {
     const sheet = this.sheets.find(s => s.id === id);
     if (sheet) {
       try {
@@ -431,7 +448,9 @@ export class NotesProvider implements vscode.TreeDataProvider<TreeItem> {
           fs.unlinkSync(sheet.filePath);
         }
         
-        vscode.window.showInformationMessage(`✅ Sheet "${sheet.name}" deleted successfully!`);
+        if (notify) {
+          vscode.window.showInformationMessage(`✅ Sheet "${sheet.name}" deleted successfully!`);
+        }
         
         // Refresh to reload all sheets from files
         this.refresh();
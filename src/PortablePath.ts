@@ -0,0 +1,40 @@
+import * as path from "path";
+import { isRemotePath } from "./RemoteProject";
+
+// Named folders paths can be written relative to, e.g. [["root", "/home/me/code"], ["home", "/home/me"]]
+export type PathVariables = [name: string, folder: string][];
+
+// Strictly below the folder, not the folder itself
+export function isInside(folder: string, filePath: string): boolean {
+  const relative = path.relative(folder, filePath);
+  return !!relative && !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+/**
+ * Rewrites a local path as ${name}/... (with forward slashes) using the most
+ * specific variable folder containing it. Remote and other paths are kept as-is.
+ */
+export function toPortablePath(projectPath: string, variables: PathVariables): string {
+  if (isRemotePath(projectPath)) return projectPath;
+  const resolved = path.resolve(projectPath);
+  const byDepth = [...variables].sort(([, a], [, b]) => path.resolve(b).length - path.resolve(a).length);
+  for (const [name, folder] of byDepth) {
+    if (resolved === path.resolve(folder)) return `\${${name}}`;
+    if (isInside(folder, resolved)) {
+      return `\${${name}}/${path.relative(folder, resolved).split(path.sep).join("/")}`;
+    }
+  }
+  return projectPath;
+}
+
+/**
+ * Expands a ${name}/... path with this machine's folders. Returns undefined
+ * when the variable is not defined here.
+ */
+export function fromPortablePath(portablePath: string, variables: PathVariables): string | undefined {
+  const match = portablePath.match(/^\$\{([\w.-]+)\}(?:\/(.*))?$/);
+  if (!match) return portablePath;
+  const folder = variables.find(([name]) => name === match[1])?.[1];
+  if (folder === undefined) return undefined;
+  return match[2] ? path.join(folder, ...match[2].split("/")) : folder;
+}
@@ -0,0 +1,382 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import * as fs from "fs";
+import * as os from "os";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { pathKey, ProjectStore } from "./ProjectStore";
+import { NotesProvider } from "./NotesProvider";
+import { ProjectCategory, ProjectEntry, SavedSearch } from "./types";
+import { isRemotePath } from "./RemoteProject";
+import { readGitRemoteUrl } from "./GitStatus";
+import { fromPortablePath, isInside, PathVariables, toPortablePath } from "./PortablePath";
+import { ProjectHealth } from "./ProjectHealth";
+
+const execFileAsync = promisify(execFile);
+
+export const BUNDLE_FORMAT = "mess-project-bundle";
+export const BUNDLE_VERSION = 1;
+export const BUNDLE_EXTENSION = "mpmbundle";
+
+// Projects carry the Git remote they had on the exporting machine, so missing ones can be cloned
+export interface BundleProject extends ProjectEntry {
+  remoteUrl?: string;
+}
+
+export interface BundleSheet {
+  id: string;
+  name: string;
+  content: string;
+}
+
+export interface ProjectBundleFile {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  projects: BundleProject[];
+  categories: ProjectCategory[];
+  savedSearches: SavedSearch[];
+  sheets: BundleSheet[];
+}
+
+type ConflictChoice = "Keep Mine" | "Use Bundle's" | "Keep Mine for All" | "Use Bundle's for All";
+
+/**
+ * ${root} (messProjectManager.bundle.root, with ${home} expanded) and ${home},
+ * the folders bundle paths are written relative to
+ */
+function getBundleVariables(): PathVariables {
+  const configured = vscode.workspace.getConfiguration("messProjectManager.bundle").get<string>("root", "${home}/code");
+  return [["root", path.resolve(configured.replace(/\$\{home\}/g, os.homedir()))], ["home", os.homedir()]];
+}
+
+function isValidBundle(data: any): data is ProjectBundleFile {
+  return !!data && data.format === BUNDLE_FORMAT
+    && Array.isArray(data.projects) && Array.isArray(data.categories)
+    && (data.savedSearches === undefined || Array.isArray(data.savedSearches))
+    && (data.sheets === undefined || Array.isArray(data.sheets));
+}
+
+// Entries are checked one by one; broken ones are skipped rather than failing the import
+function isValidBundleProject(project: any): project is BundleProject {
+  return !!project && typeof project.label === "string" && typeof project.path === "string"
+    && typeof project.active === "boolean"
+    && (project.remoteUrl === undefined || typeof project.remoteUrl === "string");
+}
+
+function isValidBundleCategory(category: any): category is ProjectCategory {
+  return !!category && typeof category.id === "string" && typeof category.name === "string";
+}
+
+function isValidBundleSearch(search: any): search is SavedSearch {
+  return !!search && typeof search.id === "string" && typeof search.name === "string" && typeof search.query === "string";
+}
+
+function isValidBundleSheet(sheet: any): sheet is BundleSheet {
+  return !!sheet && typeof sheet.id === "string" && typeof sheet.name === "string" && typeof sheet.content === "string";
+}
+
+/**
+ * Remotes a bundle may ask us to clone: https, ssh and git URLs, or the
+ * scp-like user@host:path form. Git's ext:: and file:: transports, local
+ * paths and anything that git would read as an option are refused.
+ */
+export function isCloneableRemote(url: string): boolean {
+  if (url.includes("::")) return false;
+  return /^(https|ssh|git):\/\/[^\s-][^\s]*$/i.test(url)
+    || /^[\w.-]+@[\w.-]+:[^\s-][^\s]*$/.test(url);
+}
+
+// Only the fields a project entry has, with the expected types; anything else in the bundle is dropped
+function toProjectEntry(bundled: BundleProject, localPath: string): ProjectEntry {
+  const project: ProjectEntry = { label: bundled.label, path: localPath, active: bundled.active };
+  const optionalText = ["category", "type", "description", "icon", "notes"] as const;
+  for (const field of optionalText) {
+    const value = bundled[field];
+    if (typeof value === "string") project[field] = value;
+  }
+  if (typeof bundled.favorite === "boolean") project.favorite = bundled.favorite;
+  if (Array.isArray(bundled.tags)) project.tags = bundled.tags.filter(tag => typeof tag === "string");
+  if (bundled.links && typeof bundled.links === "object") {
+    const { issues, ci, docs } = bundled.links;
+    const links = {
+      ...(typeof issues === "string" ? { issues } : {}),
+      ...(typeof ci === "string" ? { ci } : {}),
+      ...(typeof docs === "string" ? { docs } : {})
+    };
+    if (Object.keys(links).length > 0) project.links = links;
+  }
+  if (bundled.remote && typeof bundled.remote.type === "string" && typeof bundled.remote.path === "string") {
+    project.remote = bundled.remote;
+  }
+  return project;
+}
+
+// Compares two entries regardless of key order
+function sameEntry(a: object, b: object): boolean {
+  const normalize = (value: object) => JSON.stringify(Object.entries(value).filter(([, v]) => v !== undefined).sort(([x], [y]) => x.localeCompare(y)));
+  return normalize(a) === normalize(b);
+}
+
+/**
+ * A single file with selected projects, all categories and saved searches,
+ * and chosen note sheets, for handing a setup to someone else. Paths are
+ * stored relative to messProjectManager.bundle.root so they resolve on the
+ * other machine; importing merges by path and id and asks on conflicts.
+ */
+export class ProjectBundle {
+  constructor(
+    private store: ProjectStore,
+    private notesProvider: NotesProvider
+  ) {}
+
+  async exportBundle(): Promise<void> {
+    const projects = this.store.getProjects();
+    if (projects.length === 0) {
+      vscode.window.showInformationMessage("No projects to export");
+      return;
+    }
+
+    const selectedProjects = await vscode.window.showQuickPick(
+      projects.map(project => ({ label: project.label, description: project.path, picked: true, project })),
+      { canPickMany: true, matchOnDescription: true, placeHolder: "Select the projects to include in the bundle" }
+    );
+    if (!selectedProjects || selectedProjects.length === 0) return;
+
+    const sheets = this.notesProvider.getSheets().filter(sheet => sheet.id !== "useful-tips");
+    let selectedSheets: { sheet: typeof sheets[number] }[] = [];
+    if (sheets.length > 0) {
+      const picked = await vscode.window.showQuickPick(
+        sheets.map(sheet => ({ label: sheet.name, description: `${sheet.id}.txt`, sheet })),
+        { canPickMany: true, placeHolder: "Select the note sheets to include (optional)" }
+      );
+      if (!picked) return;
+      selectedSheets = picked;
+    }
+
+    const target = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.file(path.join(os.homedir(), `projects.${BUNDLE_EXTENSION}`)),
+      filters: { "Project Bundle": [BUNDLE_EXTENSION] },
+      saveLabel: "Export Bundle"
+    });
+    if (!target) return;
+
+    const variables = getBundleVariables();
+    const bundle: ProjectBundleFile = {
+      format: BUNDLE_FORMAT,
+      version: BUNDLE_VERSION,
+      projects: selectedProjects.map(({ project }) => {
+        const remoteUrl = isRemotePath(project.path) ? undefined : readGitRemoteUrl(project.path);
+        return { ...project, path: toPortablePath(project.path, variables), ...(remoteUrl ? { remoteUrl } : {}) };
+      }),
+      categories: this.store.getCategories(),
+      savedSearches: this.store.getSavedSearches(),
+      sheets: selectedSheets.map(({ sheet }) => ({ id: sheet.id, name: sheet.name, content: sheet.content }))
+    };
+
+    try {
+      await fs.promises.writeFile(target.fsPath, JSON.stringify(bundle, null, 2), "utf-8");
+      vscode.window.showInformationMessage(`✅ Exported ${bundle.projects.length} project(s) and ${bundle.sheets.length} sheet(s) to ${path.basename(target.fsPath)} (paths relative to ${variables[0][1]})`);
+    } catch (error) {
+      vscode.window.showErrorMessage(`❌ Failed to write bundle: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  async importBundle(): Promise<void> {
+    const picked = await vscode.window.showOpenDialog({
+      canSelectFiles: true,
+      canSelectFolders: false,
+      canSelectMany: false,
+      filters: { "Project Bundle": [BUNDLE_EXTENSION, "json"] },
+      openLabel: "Import Bundle"
+    });
+    if (!picked || picked.length === 0) return;
+
+    let bundle: ProjectBundleFile;
+    try {
+      const data = JSON.parse(await fs.promises.readFile(picked[0].fsPath, "utf-8"));
+      if (!isValidBundle(data)) {
+        throw new Error("not a project bundle");
+      }
+      if (data.version > BUNDLE_VERSION) {
+        throw new Error(`bundle version ${data.version} is newer than this extension supports (${BUNDLE_VERSION})`);
+      }
+      const valid = {
+        projects: data.projects.filter(isValidBundleProject),
+        categories: data.categories.filter(isValidBundleCategory),
+        savedSearches: (data.savedSearches || []).filter(isValidBundleSearch),
+        sheets: (data.sheets || []).filter(isValidBundleSheet)
+      };
+      const invalid = data.projects.length + data.categories.length + (data.savedSearches || []).length + (data.sheets || []).length
+        - valid.projects.length - valid.categories.length - valid.savedSearches.length - valid.sheets.length;
+      if (invalid > 0) {
+        vscode.window.showWarningMessage(`⚠️ Skipping ${invalid} malformed entr${invalid === 1 ? "y" : "ies"} in the bundle`);
+      }
+      bundle = { ...data, ...valid };
+    } catch (error) {
+      vscode.window.showErrorMessage(`❌ Failed to read bundle: ${error instanceof Error ? error.message : error}`);
+      return;
+    }
+
+    const variables = getBundleVariables();
+    const resolve = this.createConflictResolver();
+
+    // Categories and saved searches merge by id, projects by their path on this machine
+    let storeChanges = 0;
+    const categories = this.store.getCategories();
+    for (const category of bundle.categories) {
+      const existing = categories.find(c => c.id === category.id);
+      if (!existing) {
+        categories.push(category);
+        storeChanges++;
+      } else if (!sameEntry(existing, category) && await resolve(`Category "${existing.name}" differs from the bundle's "${category.name}".`)) {
+        categories[categories.indexOf(existing)] = category;
+        storeChanges++;
+      }
+    }
+
+    const savedSearches = this.store.getSavedSearches();
+    for (const search of bundle.savedSearches) {
+      const existing = savedSearches.find(s => s.id === search.id);
+      if (!existing) {
+        savedSearches.push(search);
+        storeChanges++;
+      } else if (!sameEntry(existing, search) && await resolve(`Saved search "${existing.name}" differs from the bundle's "${search.name}".`)) {
+        savedSearches[savedSearches.indexOf(existing)] = search;
+        storeChanges++;
+      }
+    }
+
+    const projects = this.store.getProjects();
+    const cloneable: { project: ProjectEntry; remoteUrl: string }[] = [];
+    const uncloneable: string[] = [];
+    const unresolved: string[] = [];
+    const root = variables[0][1];
+    let addedProjects = 0;
+    for (const { remoteUrl, ...bundled } of bundle.projects) {
+      const localPath = fromPortablePath(bundled.path, variables);
+      if (!localPath) {
+        unresolved.push(bundled.path);
+        continue;
+      }
+      const project = toProjectEntry(bundled, localPath);
+      const existing = projects.find(p => pathKey(p.path) === pathKey(project.path));
+      if (!existing) {
+        projects.push(project);
+        addedProjects++;
+        storeChanges++;
+      } else if (!sameEntry(existing, project) && await resolve(`Project "${existing.label}" (${project.path}) differs from the bundle's copy.`)) {
+        projects[projects.indexOf(existing)] = project;
+        storeChanges++;
+      }
+      if (remoteUrl && !isRemotePath(project.path) && !fs.existsSync(project.path)) {
+        // Bundles come from other people: only clone known transports, and only below ${root}
+        if (isCloneableRemote(remoteUrl) && isInside(root, path.resolve(project.path))) {
+          cloneable.push({ project, remoteUrl });
+        } else {
+          uncloneable.push(project.label);
+        }
+      }
+    }
+
+    let importedSheets = 0;
+    const sheets = this.notesProvider.getSheets();
+    const sheetsToWrite: BundleSheet[] = [];
+    for (const sheet of bundle.sheets) {
+      const existing = sheets.find(s => s.id === sheet.id);
+      if (!existing || (existing.content !== sheet.content && await resolve(`Sheet "${existing.name}" differs from the bundle's copy.`))) {
+        sheetsToWrite.push(sheet);
+      }
+    }
+
+    if (storeChanges > 0) {
+      const saved = this.store.update(state => {
+        state.categories = categories;
+        state.savedSearches = savedSearches;
+        state.projects = projects;
+      }, "Import project bundle");
+      // update() has already shown why; leave the sheets alone too
+      if (!saved) return;
+    }
+
+    for (const sheet of sheetsToWrite) {
+      try {
+        this.notesProvider.writeSheet(sheet.id, sheet.content);
+        importedSheets++;
+      } catch (error) {
+        vscode.window.showErrorMessage(`❌ Failed to import sheet "${sheet.name}": ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    vscode.window.showInformationMessage(`✅ Imported ${addedProjects} new project(s) and ${importedSheets} sheet(s) from the bundle`);
+
+    if (unresolved.length > 0) {
+      vscode.window.showWarningMessage(`⚠️ Skipped ${unresolved.length} project(s) with a path variable this machine does not define: ${unresolved.join(", ")}`);
+    }
+    if (uncloneable.length > 0) {
+      vscode.window.showWarningMessage(`⚠️ Not offered for cloning (unsupported remote URL or a path outside ${root}): ${uncloneable.join(", ")}`);
+    }
+    if (cloneable.length > 0) {
+      await this.offerClones(cloneable);
+    }
+  }
+
+  // Projects that are not on this machine yet but came with a Git remote
+  private async offerClones(cloneable: { project: ProjectEntry; remoteUrl: string }[]): Promise<void> {
+    const selected = await vscode.window.showQuickPick(
+      cloneable.map(item => ({ label: item.project.label, description: item.project.path, detail: item.remoteUrl, picked: true, item })),
+      { canPickMany: true, placeHolder: `${cloneable.length} project(s) are missing on this machine - select the ones to clone` }
+    );
+    if (!selected || selected.length === 0) return;
+
+    const failed: string[] = [];
+    await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: "🔄 Cloning repositories", cancellable: true },
+      async (progress, token) => {
+        for (const { item } of selected) {
+          if (token.isCancellationRequested) break;
+          progress.report({ message: item.project.label, increment: 100 / selected.length });
+          try {
+            await fs.promises.mkdir(path.dirname(item.project.path), { recursive: true });
+            // No shell: the URL and path are passed to git as plain arguments, after "--"
+            await execFileAsync("git", ["clone", "--", item.remoteUrl, item.project.path], { timeout: 300000 });
+          } catch (error) {
+            // git's own explanation ("fatal: ...") is the last line of the message
+            const reason = (error instanceof Error ? error.message : String(error)).trim().split("\n").pop();
+            failed.push(`${item.project.label} (${reason})`);
+          }
+        }
+      }
+    );
+
+    // Cloned projects were flagged missing when the bundle was merged
+    await ProjectHealth.getInstance().check(this.store.getProjects().map(p => p.path));
+
+    if (failed.length > 0) {
+      vscode.window.showWarningMessage(`⚠️ Could not clone: ${failed.join(", ")}`);
+    } else {
+      vscode.window.showInformationMessage(`✅ Cloned ${selected.length} repositor${selected.length === 1 ? "y" : "ies"}`);
+    }
+  }
+
+  /**
+   * Asks whether the bundle's version should replace ours. "...for All"
+   * answers are remembered for the rest of the import.
+   */
+  private createConflictResolver(): (message: string) => Promise<boolean> {
+    let remembered: boolean | undefined;
+    return async (message: string) => {
+      if (remembered !== undefined) return remembered;
+      const choice = await vscode.window.showWarningMessage<ConflictChoice>(
+        message,
+        { modal: true },
+        "Keep Mine", "Use Bundle's", "Keep Mine for All", "Use Bundle's for All"
+      );
+      if (choice === "Keep Mine for All" || choice === "Use Bundle's for All") {
+        remembered = choice === "Use Bundle's for All";
+        return remembered;
+      }
+      // Cancelling the dialog keeps what we have
+      return choice === "Use Bundle's";
+    };
+  }
+}
@@ -0,0 +1,130 @@
+import * as vscode from "vscode";
+import { ProjectStore } from "./ProjectStore";
+import { ProjectCategory, ProjectEntry } from "./types";
+import { GitInfo, GitStatusCache } from "./GitStatus";
+import { isRemotePath, toProjectUri } from "./RemoteProject";
+import { ProjectHealth } from "./ProjectHealth";
+
+// Theme colors offered for categories; ids are stored as-is in categories.json
+export const CATEGORY_COLORS: { id: string; label: string }[] = [
+  { id: "charts.red", label: "Red" },
+  { id: "charts.orange", label: "Orange" },
+  { id: "charts.yellow", label: "Yellow" },
+  { id: "charts.green", label: "Green" },
+  { id: "charts.blue", label: "Blue" },
+  { id: "charts.purple", label: "Purple" },
+  { id: "terminal.ansiCyan", label: "Cyan" },
+  { id: "terminal.ansiMagenta", label: "Magenta" }
+];
+
+/**
+ * Color of a category, inherited from the nearest ancestor that has one
+ */
+export function getCategoryColor(categories: ProjectCategory[], categoryId: string | undefined): string | undefined {
+  const visited = new Set<string>();
+  let category = categories.find(c => c.id === categoryId);
+  while (category && !visited.has(category.id)) {
+    if (category.color) return category.color;
+    visited.add(category.id);
+    category = categories.find(c => c.id === category!.parentId);
+  }
+  return undefined;
+}
+
+// Badges hold at most two characters: * for uncommitted changes, ↑/↓ for ahead/behind
+function gitBadge(info: GitInfo): { badge?: string; tooltip?: string } {
+  const marks: string[] = [];
+  const details: string[] = [];
+  if (info.hasChanges) {
+    marks.push("*");
+    details.push("uncommitted changes");
+  }
+  if (info.ahead > 0 && info.behind > 0) {
+    marks.push("↕");
+  } else if (info.ahead > 0) {
+    marks.push("↑");
+  } else if (info.behind > 0) {
+    marks.push("↓");
+  }
+  if (info.ahead > 0) details.push(`${info.ahead} ahead`);
+  if (info.behind > 0) details.push(`${info.behind} behind`);
+  return marks.length > 0 ? { badge: marks.join(""), tooltip: details.join(", ") } : {};
+}
+
+/**
+ * Decorates project items through the resourceUri ProjectItem sets: tinted
+ * by category color, greyed out when inactive, and badged with the cached Git
+ * status. VS Code shows the same decorations wherever those folders appear.
+ */
+export class ProjectDecorationProvider implements vscode.FileDecorationProvider, vscode.Disposable {
+  private _onDidChangeFileDecorations = new vscode.EventEmitter<vscode.Uri | vscode.Uri[] | undefined>();
+  readonly onDidChangeFileDecorations: vscode.Event<vscode.Uri | vscode.Uri[] | undefined> = this._onDidChangeFileDecorations.event;
+
+  private projectsByUri: Map<string, ProjectEntry> = new Map();
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private store: ProjectStore) {
+    this.indexProjects();
+    const refresh = () => this._onDidChangeFileDecorations.fire(undefined);
+    this.disposables.push(
+      store.onDidChange(() => {
+        this.indexProjects();
+        refresh();
+      }),
+      GitStatusCache.getInstance().onDidUpdateStatus(projectPath => this._onDidChangeFileDecorations.fire(toProjectUri(projectPath))),
+      vscode.workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration("messProjectManager.gitBadges")) {
+          refresh();
+        }
+      })
+    );
+  }
+
+  provideFileDecoration(uri: vscode.Uri, token: vscode.CancellationToken): vscode.FileDecoration | undefined {
+    const project = this.projectsByUri.get(uri.toString());
+    if (!project) return undefined;
+
+    const tooltips: string[] = [];
+    let color: vscode.ThemeColor | undefined;
+    let badge: string | undefined;
+
+    if (!project.active) {
+      color = new vscode.ThemeColor("disabledForeground");
+      tooltips.push("inactive");
+    } else {
+      const categoryColor = getCategoryColor(this.store.getCategories(), project.category);
+      color = categoryColor ? new vscode.ThemeColor(categoryColor) : undefined;
+    }
+
+    const showGit = vscode.workspace.getConfiguration("messProjectManager").get<boolean>("gitBadges", true);
+    if (showGit && !isRemotePath(project.path) && !ProjectHealth.getInstance().isMissing(project.path)) {
+      const gitStatus = GitStatusCache.getInstance();
+      if (gitStatus.has(project.path)) {
+        const info = gitStatus.get(project.path);
+        if (info) {
+          const git = gitBadge(info);
+          badge = git.badge;
+          if (git.tooltip) tooltips.push(git.tooltip);
+        }
+      } else if (!token.isCancellationRequested) {
+        // Only items VS Code is drawing ask for decorations, so statuses are looked up
+        // for those alone (and not for items scrolled past already); badges fill in once they are in
+        gitStatus.request(project.path);
+      }
+    }
+
+    if (!color && !badge) return undefined;
+    const decoration = new vscode.FileDecoration(badge, tooltips.join(", ") || undefined, color);
+    decoration.propagate = false;
+    return decoration;
+  }
+
+  dispose(): void {
+    this.disposables.forEach(d => d.dispose());
+    this._onDidChangeFileDecorations.dispose();
+  }
+
+  private indexProjects(): void {
+    this.projectsByUri = new Map(this.store.getProjects().map(project => [toProjectUri(project.path).toString(), project]));
+  }
+}
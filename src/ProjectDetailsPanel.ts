@@ -0,0 +1,402 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import * as fs from "fs";
+import * as crypto from "crypto";
+import { ProjectStore } from "./ProjectStore";
+import { ProjectDetailsChanges, ProjectProvider } from "./ProjectProvider";
+import { ProjectUsageTracker } from "./ProjectUsage";
+import { getCategoryPath } from "./CategoryTree";
+import { isRemotePath } from "./RemoteProject";
+import { readGitBranch, readGitRemoteUrl } from "./GitStatus";
+import { PENDING_PROJECT_TYPE } from "./ProjectTypeCache";
+import { ProjectLinks } from "./types";
+
+// Stop counting after this many entries so huge folders don't keep the disk busy
+const MAX_SIZE_ENTRIES = 200000;
+
+const LINK_FIELDS: { key: keyof ProjectLinks; label: string }[] = [
+  { key: "issues", label: "Issue Tracker" },
+  { key: "ci", label: "CI" },
+  { key: "docs", label: "Docs" }
+];
+
+interface DetailsForm {
+  label: string;
+  description: string;
+  tags: string;
+  category: string;
+  links: ProjectLinks;
+  icon: string;
+  notes: string;
+}
+
+type WebviewMessage =
+  | { type: "save"; form: DetailsForm }
+  | { type: "openLink"; url: string };
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, c => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", "\"": "&quot;", "'": "&#39;" }[c]!));
+}
+
+function formatSize(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let size = bytes;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? size : size.toFixed(1)} ${units[unit]}`;
+}
+
+// Total size of regular files below a folder, without following symlinks
+async function measureFolder(folder: string, isCancelled: () => boolean): Promise<{ bytes: number; files: number; partial: boolean }> {
+  let bytes = 0;
+  let files = 0;
+  let entries = 0;
+  const pending = [folder];
+  while (pending.length > 0) {
+    if (isCancelled() || entries >= MAX_SIZE_ENTRIES) {
+      return { bytes, files, partial: true };
+    }
+    const dir = pending.pop()!;
+    let children: fs.Dirent[];
+    try {
+      children = await fs.promises.readdir(dir, { withFileTypes: true });
+    } catch (error) {
+      // Unreadable folder - count what we can
+      continue;
+    }
+    for (const child of children) {
+      entries++;
+      const childPath = path.join(dir, child.name);
+      if (child.isDirectory()) {
+        pending.push(childPath);
+      } else if (child.isFile()) {
+        try {
+          bytes += (await fs.promises.stat(childPath)).size;
+          files++;
+        } catch (error) {
+          // Removed while counting
+        }
+      }
+    }
+  }
+  return { bytes, files, partial: false };
+}
+
+// Comma or whitespace separated, "#" optional, duplicates dropped regardless of case
+function parseTags(value: string): string[] {
+  const tags: string[] = [];
+  for (const raw of value.split(/[,\s]+/)) {
+    const tag = raw.trim().replace(/^#/, "");
+    if (tag && !tags.some(t => t.toLowerCase() === tag.toLowerCase())) {
+      tags.push(tag);
+    }
+  }
+  return tags;
+}
+
+/**
+ * Webview with a project's editable metadata (label, description, tags,
+ * category, links, icon, notes) next to facts read from disk. One panel per
+ * project; saving goes through ProjectProvider like the tree's own edits, and
+ * store changes made elsewhere are reflected unless the form has unsaved edits.
+ */
+export class ProjectDetailsPanel implements vscode.Disposable {
+  private static panels = new Map<string, ProjectDetailsPanel>();
+
+  private disposables: vscode.Disposable[] = [];
+  private disposed = false;
+
+  static show(store: ProjectStore, provider: ProjectProvider, usageTracker: ProjectUsageTracker, projectPath: string): void {
+    const existing = ProjectDetailsPanel.panels.get(projectPath);
+    if (existing) {
+      existing.panel.reveal();
+      return;
+    }
+    const project = store.getProject(projectPath);
+    if (!project) {
+      vscode.window.showErrorMessage(`❌ Project not found: ${projectPath}`);
+      return;
+    }
+    const panel = vscode.window.createWebviewPanel(
+      "messProjectManager.projectDetails",
+      `Project: ${project.label}`,
+      vscode.ViewColumn.Active,
+      { enableScripts: true, retainContextWhenHidden: true }
+    );
+    ProjectDetailsPanel.panels.set(projectPath, new ProjectDetailsPanel(panel, store, provider, usageTracker, projectPath));
+  }
+
+  private constructor(
+    private panel: vscode.WebviewPanel,
+    private store: ProjectStore,
+    private provider: ProjectProvider,
+    private usageTracker: ProjectUsageTracker,
+    private projectPath: string
+  ) {
+    this.panel.iconPath = new vscode.ThemeIcon("info");
+    this.panel.webview.html = this.render();
+    this.disposables.push(
+      this.panel.onDidDispose(() => this.dispose()),
+      this.panel.webview.onDidReceiveMessage((message: WebviewMessage) => this.handleMessage(message)),
+      this.store.onDidChange(() => this.onStoreChanged())
+    );
+    this.updateSize();
+  }
+
+  dispose(): void {
+    if (this.disposed) return;
+    this.disposed = true;
+    ProjectDetailsPanel.panels.delete(this.projectPath);
+    this.disposables.forEach(d => d.dispose());
+    this.panel.dispose();
+  }
+
+  private onStoreChanged(): void {
+    const project = this.store.getProject(this.projectPath);
+    if (!project) {
+      // Removed or relocated - the panel no longer describes anything
+      this.dispose();
+      return;
+    }
+    this.panel.title = `Project: ${project.label}`;
+    // Categories may have been added, renamed or removed too
+    this.panel.webview.postMessage({ type: "load", form: this.getForm(), categories: this.getCategoryOptions() });
+  }
+
+  private async handleMessage(message: WebviewMessage): Promise<void> {
+    if (message.type === "openLink") {
+      if (/^https?:\/\//i.test(message.url)) {
+        await vscode.env.openExternal(vscode.Uri.parse(message.url));
+      }
+      return;
+    }
+
+    const error = this.validate(message.form);
+    if (error) {
+      this.panel.webview.postMessage({ type: "error", message: error });
+      return;
+    }
+
+    const form = message.form;
+    const changes: ProjectDetailsChanges = {
+      label: form.label.trim(),
+      description: form.description.trim(),
+      tags: parseTags(form.tags),
+      category: form.category || undefined,
+      links: {
+        issues: form.links.issues?.trim() || undefined,
+        ci: form.links.ci?.trim() || undefined,
+        docs: form.links.docs?.trim() || undefined
+      },
+      icon: form.icon.trim(),
+      notes: form.notes.replace(/\s+$/, "")
+    };
+    if (this.provider.updateProjectDetails(this.projectPath, changes)) {
+      this.panel.webview.postMessage({ type: "saved", form: this.getForm() });
+    } else {
+      this.panel.webview.postMessage({ type: "error", message: "Failed to save the project - see the error notification" });
+    }
+  }
+
+  private validate(form: DetailsForm): string | undefined {
+    if (!form.label.trim()) {
+      return "Label cannot be empty";
+    }
+    for (const { key, label } of LINK_FIELDS) {
+      const url = form.links[key]?.trim();
+      if (url && !/^https?:\/\/\S+$/i.test(url)) {
+        return `${label} link must be an http(s) URL`;
+      }
+    }
+    if (form.icon.trim() && !/^[a-z0-9-]+(~spin)?$/.test(form.icon.trim())) {
+      return "Icon must be a codicon id such as \"rocket\" or \"beaker\"";
+    }
+    if (form.category && !this.store.getCategories().some(c => c.id === form.category)) {
+      return "That category no longer exists";
+    }
+    return undefined;
+  }
+
+  private getForm(): DetailsForm {
+    const project = this.store.getProject(this.projectPath)!;
+    return {
+      label: project.label,
+      description: project.description || "",
+      tags: (project.tags || []).join(", "),
+      category: project.category || "",
+      links: { ...project.links },
+      icon: project.icon || "",
+      notes: project.notes || ""
+    };
+  }
+
+  private getFacts(): [string, string][] {
+    const local = !isRemotePath(this.projectPath);
+    const projectType = this.provider.detectProjectType(this.projectPath);
+    const usage = this.usageTracker.getUsage(this.projectPath);
+    const remoteUrl = local ? readGitRemoteUrl(this.projectPath) : undefined;
+    const branch = local ? readGitBranch(this.projectPath) : undefined;
+    return [
+      ["Path", this.projectPath],
+      ["Type", projectType === PENDING_PROJECT_TYPE ? "detecting..." : projectType],
+      ["Git Remote", remoteUrl || "—"],
+      ["Git Branch", branch || "—"],
+      ["Last Opened", usage?.lastOpened ? `${new Date(usage.lastOpened).toLocaleString()} (${usage.count} time${usage.count === 1 ? "" : "s"})` : "never"],
+      ["Size", local ? "calculating..." : "—"]
+    ];
+  }
+
+  private async updateSize(): Promise<void> {
+    if (isRemotePath(this.projectPath) || !fs.existsSync(this.projectPath)) return;
+    const { bytes, files, partial } = await measureFolder(this.projectPath, () => this.disposed);
+    if (this.disposed) return;
+    const text = `${partial ? "more than " : ""}${formatSize(bytes)} in ${files.toLocaleString()} file${files === 1 ? "" : "s"}`;
+    this.panel.webview.postMessage({ type: "size", text });
+  }
+
+  // Choices of the category select, by full path
+  private getCategoryOptions(): { id: string; name: string }[] {
+    const categories = this.store.getCategories();
+    return categories
+      .map(c => ({ id: c.id, name: getCategoryPath(categories, c.id) || c.name }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  private render(): string {
+    const nonce = crypto.randomBytes(16).toString("base64");
+    const form = this.getForm();
+
+    const facts = this.getFacts()
+      .map(([name, value]) => `<dt>${escapeHtml(name)}</dt><dd${name === "Size" ? " id=\"size\"" : ""}>${escapeHtml(value)}</dd>`)
+      .join("");
+    const linkInputs = LINK_FIELDS.map(({ key, label }) => `
+      <label for="link-${key}">${label}</label>
+      <div class="link"><input id="link-${key}" data-link="${key}" type="url" placeholder="https://">
+      <button type="button" class="secondary" data-open="${key}">Open</button></div>`).join("");
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${this.panel.webview.cspSource} 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<style nonce="${nonce}">
+  body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); max-width: 720px; padding: 0 16px 24px; }
+  h2 { font-weight: 600; border-bottom: 1px solid var(--vscode-panel-border); padding-bottom: 4px; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: 4px 16px; }
+  dt { color: var(--vscode-descriptionForeground); }
+  dd { margin: 0; word-break: break-all; }
+  label { display: block; margin: 12px 0 4px; color: var(--vscode-descriptionForeground); }
+  input, select, textarea { width: 100%; box-sizing: border-box; padding: 4px 6px; font-family: inherit; font-size: inherit;
+    color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-input-border, transparent); }
+  textarea { resize: vertical; }
+  #notes { font-family: var(--vscode-editor-font-family); min-height: 160px; }
+  .link { display: flex; gap: 6px; }
+  .link input { flex: 1; }
+  button { padding: 4px 12px; color: var(--vscode-button-foreground); background: var(--vscode-button-background); border: none; cursor: pointer; }
+  button:hover { background: var(--vscode-button-hoverBackground); }
+  button.secondary { color: var(--vscode-button-secondaryForeground); background: var(--vscode-button-secondaryBackground); }
+  .actions { display: flex; gap: 8px; align-items: center; margin-top: 16px; }
+  #status.error { color: var(--vscode-errorForeground); }
+</style>
+</head>
+<body>
+<h2>Details</h2>
+<dl>${facts}</dl>
+<h2>Metadata</h2>
+<form id="form">
+  <label for="label">Label</label>
+  <input id="label" required>
+  <label for="description">Description</label>
+  <textarea id="description" rows="2"></textarea>
+  <label for="tags">Tags (comma separated)</label>
+  <input id="tags">
+  <label for="category">Category</label>
+  <select id="category"></select>
+  ${linkInputs}
+  <label for="icon">Icon (codicon id, e.g. rocket - leave empty for the project type icon)</label>
+  <input id="icon">
+  <label for="notes">Notes</label>
+  <textarea id="notes"></textarea>
+  <div class="actions">
+    <button type="submit">Save</button>
+    <button type="button" class="secondary" id="revert">Revert</button>
+    <span id="status"></span>
+  </div>
+</form>
+<script nonce="${nonce}">
+  const vscode = acquireVsCodeApi();
+  const fields = ["label", "description", "tags", "category", "icon", "notes"];
+  const status = document.getElementById("status");
+  let saved = ${JSON.stringify(form).replace(/</g, "\\u003c")};
+  const initialCategories = ${JSON.stringify(this.getCategoryOptions()).replace(/</g, "\\u003c")};
+  let dirty = false;
+
+  // Rebuilt on every load, keeping the current choice when it still exists
+  function setCategories(categories) {
+    const select = document.getElementById("category");
+    const value = select.value;
+    select.replaceChildren(...[{ id: "", name: "Uncategorized" }, ...categories].map(category => {
+      const option = document.createElement("option");
+      option.value = category.id;
+      option.textContent = category.name;
+      return option;
+    }));
+    select.value = value;
+  }
+
+  function fill(form) {
+    fields.forEach(id => document.getElementById(id).value = form[id]);
+    document.querySelectorAll("[data-link]").forEach(input => input.value = form.links[input.dataset.link] || "");
+    dirty = false;
+  }
+  function read() {
+    const form = { links: {} };
+    fields.forEach(id => form[id] = document.getElementById(id).value);
+    document.querySelectorAll("[data-link]").forEach(input => form.links[input.dataset.link] = input.value);
+    return form;
+  }
+  function setStatus(text, isError) {
+    status.textContent = text;
+    status.className = isError ? "error" : "";
+  }
+
+  document.getElementById("form").addEventListener("input", () => { dirty = true; setStatus("Unsaved changes"); });
+  document.getElementById("form").addEventListener("submit", event => {
+    event.preventDefault();
+    vscode.postMessage({ type: "save", form: read() });
+  });
+  document.getElementById("revert").addEventListener("click", () => { fill(saved); setStatus(""); });
+  document.querySelectorAll("[data-open]").forEach(button => button.addEventListener("click", () => {
+    const url = document.getElementById("link-" + button.dataset.open).value.trim();
+    if (url) vscode.postMessage({ type: "openLink", url });
+  }));
+
+  window.addEventListener("message", event => {
+    const message = event.data;
+    if (message.type === "load") {
+      setCategories(message.categories);
+      saved = message.form;
+      // Keep what is being typed; Revert picks up the new values
+      if (!dirty) fill(saved);
+    } else if (message.type === "saved") {
+      saved = message.form;
+      fill(saved);
+      setStatus("Saved");
+    } else if (message.type === "error") {
+      setStatus(message.message, true);
+    } else if (message.type === "size") {
+      document.getElementById("size").textContent = message.text;
+    }
+  });
+
+  setCategories(initialCategories);
+  fill(saved);
+</script>
+</body>
+</html>`;
+  }
+}
@@ -0,0 +1,230 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import * as fs from "fs";
+import * as os from "os";
+import { ProjectStore } from "./ProjectStore";
+import { detectFolderTypeAsync, hasProjectMarker } from "./ProjectTypeDetector";
+import { globToRegExp } from "./Glob";
+
+export interface DiscoveredProject {
+  label: string;
+  path: string;
+  projectType: string;
+}
+
+interface DiscoverySettings {
+  roots: string[];
+  maxDepth: number;
+  ignore: RegExp[];
+  rescanIntervalMinutes: number;
+}
+
+const SEEN_CANDIDATES_KEY = "messProjectManager.discovery.seenCandidates";
+
+export function expandHome(root: string): string {
+  if (root === "~" || root.startsWith("~/") || root.startsWith("~\\")) {
+    return path.join(os.homedir(), root.slice(1));
+  }
+  return root;
+}
+
+export class ProjectDiscovery implements vscode.Disposable {
+  private rescanTimer: NodeJS.Timeout | undefined;
+  private scanning = false;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private context: vscode.ExtensionContext,
+    private store: ProjectStore
+  ) {
+    this.scheduleBackgroundRescan();
+    this.disposables.push(vscode.workspace.onDidChangeConfiguration(e => {
+      if (e.affectsConfiguration("messProjectManager.discovery")) {
+        this.scheduleBackgroundRescan();
+      }
+    }));
+  }
+
+  /**
+   * Walks the configured roots and returns project folders not yet in the store
+   */
+  async scan(token?: vscode.CancellationToken): Promise<DiscoveredProject[]> {
+    const settings = this.getSettings();
+    const known = new Set(this.store.getProjects().map(p => path.normalize(p.path)));
+    const found = new Map<string, DiscoveredProject>();
+
+    for (const root of settings.roots) {
+      if (!fs.existsSync(root)) {
+        console.warn(`Discovery root does not exist: ${root}`);
+        continue;
+      }
+      await this.walk(root, root, 0, settings, found, token);
+    }
+
+    return [...found.values()].filter(candidate => !known.has(path.normalize(candidate.path)));
+  }
+
+  /**
+   * "Discover Projects" command: scan, preview the candidates, add the selection
+   */
+  async discoverProjects(): Promise<void> {
+    const settings = this.getSettings();
+    if (settings.roots.length === 0) {
+      const action = await vscode.window.showWarningMessage(
+        "No discovery roots configured. Add folders to \"messProjectManager.discovery.roots\" first.",
+        "Open Settings"
+      );
+      if (action === "Open Settings") {
+        await vscode.commands.executeCommand("workbench.action.openSettings", "messProjectManager.discovery");
+      }
+      return;
+    }
+
+    const candidates = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: "🔍 Discovering projects...",
+        cancellable: true
+      },
+      (_progress, token) => this.scan(token)
+    );
+
+    this.rememberCandidates(candidates);
+
+    if (candidates.length === 0) {
+      vscode.window.showInformationMessage("No new projects found in the discovery roots");
+      return;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+      candidates.map(candidate => ({
+        label: candidate.label,
+        description: candidate.path,
+        detail: candidate.projectType,
+        picked: true,
+        candidate
+      })),
+      {
+        canPickMany: true,
+        matchOnDescription: true,
+        placeHolder: `${candidates.length} new project(s) found - select the ones to add`
+      }
+    );
+
+    if (!selected || selected.length === 0) return;
+
+    this.store.update(state => {
+      for (const { candidate } of selected) {
+        if (!state.projects.some(p => p.path === candidate.path)) {
+          state.projects.push({ label: candidate.label, path: candidate.path, active: true });
+        }
+      }
+    }, `Add ${selected.length} discovered project(s)`);
+
+    vscode.window.showInformationMessage(`✅ Added ${selected.length} discovered project(s)`);
+  }
+
+  dispose(): void {
+    if (this.rescanTimer) {
+      clearInterval(this.rescanTimer);
+    }
+    this.disposables.forEach(d => d.dispose());
+  }
+
+  private async walk(
+    dir: string,
+    root: string,
+    depth: number,
+    settings: DiscoverySettings,
+    found: Map<string, DiscoveredProject>,
+    token?: vscode.CancellationToken
+  ): Promise<void> {
+    if (token?.isCancellationRequested) return;
+
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    } catch (error) {
+      // Unreadable folder (permissions, broken mount) - skip it
+      return;
+    }
+
+    if (hasProjectMarker(entries.map(e => e.name))) {
+      // Stop at the first project root: nested folders belong to that project
+      found.set(dir, {
+        label: path.basename(dir),
+        path: dir,
+        projectType: await detectFolderTypeAsync(dir)
+      });
+      return;
+    }
+
+    if (depth >= settings.maxDepth) return;
+
+    for (const entry of entries) {
+      if (!entry.isDirectory()) continue;
+      const childPath = path.join(dir, entry.name);
+      const relativePath = path.relative(root, childPath).split(path.sep).join("/");
+      if (settings.ignore.some(pattern => pattern.test(relativePath) || pattern.test(entry.name))) {
+        continue;
+      }
+      await this.walk(childPath, root, depth + 1, settings, found, token);
+    }
+  }
+
+  private getSettings(): DiscoverySettings {
+    const config = vscode.workspace.getConfiguration("messProjectManager.discovery");
+    return {
+      roots: config.get<string[]>("roots", []).map(expandHome),
+      maxDepth: Math.max(0, config.get<number>("maxDepth", 3)),
+      ignore: config.get<string[]>("ignore", []).map(globToRegExp),
+      rescanIntervalMinutes: config.get<number>("rescanIntervalMinutes", 0)
+    };
+  }
+
+  private scheduleBackgroundRescan(): void {
+    if (this.rescanTimer) {
+      clearInterval(this.rescanTimer);
+      this.rescanTimer = undefined;
+    }
+
+    const { roots, rescanIntervalMinutes } = this.getSettings();
+    if (roots.length === 0 || rescanIntervalMinutes <= 0) return;
+
+    this.rescanTimer = setInterval(() => this.backgroundRescan(), rescanIntervalMinutes * 60 * 1000);
+  }
+
+  // Flags folders that appeared since the last scan; candidates the user
+  // already saw (added or not) are not reported again
+  private async backgroundRescan(): Promise<void> {
+    if (this.scanning) return;
+    this.scanning = true;
+    try {
+      const candidates = await this.scan();
+      const seen = new Set(this.context.globalState.get<string[]>(SEEN_CANDIDATES_KEY, []));
+      const newCandidates = candidates.filter(candidate => !seen.has(candidate.path));
+      if (newCandidates.length === 0) return;
+
+      this.rememberCandidates(newCandidates);
+
+      const names = newCandidates.slice(0, 3).map(candidate => candidate.label).join(", ");
+      const action = await vscode.window.showInformationMessage(
+        `🆕 ${newCandidates.length} new project folder(s) found: ${names}${newCandidates.length > 3 ? "..." : ""}`,
+        "Review"
+      );
+      if (action === "Review") {
+        await this.discoverProjects();
+      }
+    } catch (error) {
+      console.error("Background project discovery failed:", error);
+    } finally {
+      this.scanning = false;
+    }
+  }
+
+  private rememberCandidates(candidates: DiscoveredProject[]): void {
+    const seen = new Set(this.context.globalState.get<string[]>(SEEN_CANDIDATES_KEY, []));
+    candidates.forEach(candidate => seen.add(candidate.path));
+    this.context.globalState.update(SEEN_CANDIDATES_KEY, [...seen]);
+  }
+}
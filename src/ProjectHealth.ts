@@ -0,0 +1,217 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import * as fs from "fs";
+import { isRemotePath } from "./RemoteProject";
+import { isWorkspaceFile } from "./WorkspaceProject";
+import { readPackageJsonAsync } from "./ProjectTypeDetector";
+import { readGitRemoteUrl } from "./GitStatus";
+
+// What a project looked like while it still existed, to recognise it after a move
+interface ProjectFingerprint {
+  remoteUrl?: string;
+  packageName?: string;
+}
+
+export interface RelocationCandidate {
+  path: string;
+  // Why the folder looks like the missing project, e.g. "same Git remote"
+  reasons: string[];
+}
+
+const FINGERPRINTS_KEY = "messProjectManager.projectFingerprints";
+// Levels of parent folders searched, and how deep below each of them
+const SEARCH_PARENT_LEVELS = 2;
+const SEARCH_DEPTH = 2;
+const MAX_SEARCHED_FOLDERS = 2000;
+
+async function pathExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.promises.stat(filePath);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+// git@github.com:user/repo.git and https://github.com/user/repo are the same remote
+function normalizeRemoteUrl(url: string): string {
+  return url.trim().toLowerCase()
+    .replace(/^[a-z+]+:\/\/([^@/]+@)?/, "")
+    .replace(/^[^@/]+@([^:/]+):/, "$1/")
+    .replace(/\.git$/, "")
+    .replace(/\/+$/, "");
+}
+
+/**
+ * Tracks which local projects no longer exist on disk. Paths are checked in
+ * the background on activation, when the project list changes and when the
+ * window regains focus; onDidChange fires when the set of missing projects
+ * changes. Remote projects are never reported missing.
+ */
+export class ProjectHealth {
+  private static instance: ProjectHealth;
+  private missing: Set<string> = new Set();
+  private fingerprints: { [projectPath: string]: ProjectFingerprint } = {};
+  private memento: vscode.Memento | undefined;
+  private checking: Promise<void> = Promise.resolve();
+  private _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+  public static getInstance(): ProjectHealth {
+    if (!ProjectHealth.instance) {
+      ProjectHealth.instance = new ProjectHealth();
+    }
+    return ProjectHealth.instance;
+  }
+
+  restore(memento: vscode.Memento): void {
+    this.memento = memento;
+    this.fingerprints = { ...memento.get<{ [projectPath: string]: ProjectFingerprint }>(FINGERPRINTS_KEY, {}) };
+  }
+
+  isMissing(projectPath: string): boolean {
+    return this.missing.has(projectPath);
+  }
+
+  getMissing(): string[] {
+    return [...this.missing];
+  }
+
+  // Carries what is known about a project over to its new path; the next check confirms it
+  movePath(oldPath: string, newPath: string): void {
+    if (this.fingerprints[oldPath]) {
+      this.fingerprints[newPath] = this.fingerprints[oldPath];
+      delete this.fingerprints[oldPath];
+      this.memento?.update(FINGERPRINTS_KEY, this.fingerprints);
+    }
+    if (this.missing.delete(oldPath)) {
+      this._onDidChange.fire();
+    }
+  }
+
+  /**
+   * Checks whether the given projects still exist and remembers the Git
+   * remote and package name of those that do. Checks run one at a time.
+   */
+  check(projectPaths: string[]): Promise<void> {
+    this.checking = this.checking.then(() => this.runCheck(projectPaths));
+    return this.checking;
+  }
+
+  private async runCheck(projectPaths: string[]): Promise<void> {
+    const missing = new Set<string>();
+    const fingerprints: { [projectPath: string]: ProjectFingerprint } = {};
+
+    for (const projectPath of projectPaths) {
+      if (isRemotePath(projectPath)) continue;
+      if (!await pathExists(projectPath)) {
+        missing.add(projectPath);
+        // Keep what we knew about it for the relocate wizard
+        if (this.fingerprints[projectPath]) {
+          fingerprints[projectPath] = this.fingerprints[projectPath];
+        }
+      } else if (!isWorkspaceFile(projectPath)) {
+        fingerprints[projectPath] = await this.readFingerprint(projectPath);
+      }
+    }
+
+    this.fingerprints = fingerprints;
+    this.memento?.update(FINGERPRINTS_KEY, fingerprints);
+
+    const changed = missing.size !== this.missing.size || [...missing].some(p => !this.missing.has(p));
+    this.missing = missing;
+    if (changed) {
+      this._onDidChange.fire();
+    }
+  }
+
+  private async readFingerprint(folderPath: string): Promise<ProjectFingerprint> {
+    const remoteUrl = readGitRemoteUrl(folderPath);
+    const packageName = (await readPackageJsonAsync(folderPath))?.name;
+    return {
+      remoteUrl: remoteUrl ? normalizeRemoteUrl(remoteUrl) : undefined,
+      packageName: typeof packageName === "string" ? packageName : undefined
+    };
+  }
+
+  /**
+   * Likely new locations of a missing project: folders near its old path
+   * (siblings, and below the nearest existing parents) with the same name,
+   * Git remote or package.json name. Best matches first.
+   */
+  async findRelocationCandidates(projectPath: string, token?: vscode.CancellationToken): Promise<RelocationCandidate[]> {
+    const name = path.basename(projectPath).toLowerCase();
+    const lookingForFile = isWorkspaceFile(projectPath);
+    const fingerprint = this.fingerprints[projectPath] || {};
+
+    // Nearest ancestor that still exists, then up to SEARCH_PARENT_LEVELS above it
+    let anchor = path.dirname(projectPath);
+    while (!await pathExists(anchor) && path.dirname(anchor) !== anchor) {
+      anchor = path.dirname(anchor);
+    }
+    const searchRoots = [anchor];
+    for (let i = 0; i < SEARCH_PARENT_LEVELS && path.dirname(searchRoots[searchRoots.length - 1]) !== searchRoots[searchRoots.length - 1]; i++) {
+      searchRoots.push(path.dirname(searchRoots[searchRoots.length - 1]));
+    }
+
+    const candidates = new Map<string, RelocationCandidate>();
+    const visited = new Set<string>();
+    const queue: { folder: string; depth: number }[] = searchRoots.map(folder => ({ folder, depth: 0 }));
+
+    while (queue.length > 0 && visited.size < MAX_SEARCHED_FOLDERS && !token?.isCancellationRequested) {
+      const { folder, depth } = queue.shift()!;
+      if (visited.has(folder)) continue;
+      visited.add(folder);
+
+      let entries: fs.Dirent[];
+      try {
+        entries = await fs.promises.readdir(folder, { withFileTypes: true });
+      } catch (error) {
+        continue;
+      }
+
+      for (const entry of entries) {
+        const entryPath = path.join(folder, entry.name);
+        if (entryPath === projectPath) continue;
+
+        if (lookingForFile) {
+          if (entry.isFile() && entry.name.toLowerCase() === name) {
+            candidates.set(entryPath, { path: entryPath, reasons: ["same file name"] });
+          }
+        } else if (entry.isDirectory() && entry.name !== "node_modules" && !entry.name.startsWith(".")) {
+          const reasons = await this.matchFolder(entryPath, entry.name.toLowerCase() === name, fingerprint);
+          if (reasons.length > 0) {
+            candidates.set(entryPath, { path: entryPath, reasons });
+          }
+        }
+
+        if (entry.isDirectory() && depth < SEARCH_DEPTH && entry.name !== "node_modules" && !entry.name.startsWith(".")) {
+          queue.push({ folder: entryPath, depth: depth + 1 });
+        }
+      }
+    }
+
+    return [...candidates.values()].sort((a, b) => b.reasons.length - a.reasons.length
+      || path.relative(projectPath, a.path).length - path.relative(projectPath, b.path).length);
+  }
+
+  private async matchFolder(folderPath: string, sameName: boolean, fingerprint: ProjectFingerprint): Promise<string[]> {
+    const reasons: string[] = [];
+    if (sameName) {
+      reasons.push("same folder name");
+    }
+    if (fingerprint.remoteUrl) {
+      const remoteUrl = readGitRemoteUrl(folderPath);
+      if (remoteUrl && normalizeRemoteUrl(remoteUrl) === fingerprint.remoteUrl) {
+        reasons.push("same Git remote");
+      }
+    }
+    if (fingerprint.packageName) {
+      const packageJson = await readPackageJsonAsync(folderPath);
+      if (packageJson?.name === fingerprint.packageName) {
+        reasons.push("same package.json name");
+      }
+    }
+    return reasons;
+  }
+}
@@ -0,0 +1,236 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import * as fs from "fs";
+import * as crypto from "crypto";
+import { ProjectStore, ProjectStoreState, ProjectStoreUpdate } from "./ProjectStore";
+import { ProjectEntry } from "./types";
+
+const HISTORY_FILE = "history.json";
+const MAX_ENTRIES = 50;
+
+// The lists an entry restores; only the ones the change touched are kept
+type StateSnapshot = Partial<ProjectStoreState>;
+
+interface HistoryEntry {
+  id: string;
+  label: string;
+  timestamp: number;
+  restore: StateSnapshot;
+  // Hash of the state the entry applies to, to notice edits made outside the journal
+  expectedHash: string;
+}
+
+interface HistoryFile {
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+}
+
+function hashState(state: ProjectStoreState): string {
+  return crypto.createHash("sha1")
+    .update(JSON.stringify([state.projects, state.categories, state.savedSearches]))
+    .digest("hex");
+}
+
+function copyInto<K extends keyof ProjectStoreState>(snapshot: StateSnapshot, state: ProjectStoreState, key: K): void {
+  snapshot[key] = JSON.parse(JSON.stringify(state[key]));
+}
+
+// projects.json and categories.json change independently, so they are snapshotted independently
+function snapshotChanged(before: ProjectStoreState, after: ProjectStoreState): StateSnapshot {
+  const snapshot: StateSnapshot = {};
+  if (JSON.stringify(before.projects) !== JSON.stringify(after.projects)) {
+    snapshot.projects = JSON.parse(JSON.stringify(before.projects));
+  }
+  if (JSON.stringify([before.categories, before.savedSearches]) !== JSON.stringify([after.categories, after.savedSearches])) {
+    snapshot.categories = JSON.parse(JSON.stringify(before.categories));
+    snapshot.savedSearches = JSON.parse(JSON.stringify(before.savedSearches));
+  }
+  return snapshot;
+}
+
+/**
+ * Projects that only changed their path between two lists, as [old, new]
+ * pairs. A path change edits the entry in place, so the lists line up.
+ */
+function findPathMoves(before: ProjectEntry[], after: ProjectEntry[]): [string, string][] {
+  if (before.length !== after.length) return [];
+  const moves: [string, string][] = [];
+  before.forEach((project, i) => {
+    const moved = after[i];
+    if (project.path !== moved.path && JSON.stringify({ ...project, path: "" }) === JSON.stringify({ ...moved, path: "" })) {
+      moves.push([project.path, moved.path]);
+    }
+  });
+  return moves;
+}
+
+/**
+ * Undo/redo journal for the project, category and saved search lists. Every
+ * ProjectStore.update() is recorded with the lists it replaced; the journal
+ * is kept in history.json next to projects.json so it survives reloads.
+ * Undoing after the files were changed elsewhere (by hand, by sync) asks first.
+ */
+export class ProjectHistory implements vscode.Disposable {
+  private static instance: ProjectHistory;
+  private store: ProjectStore | undefined;
+  private historyFile: string | undefined;
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+  private restoring = false;
+  private saving: Promise<void> = Promise.resolve();
+  private disposables: vscode.Disposable[] = [];
+  private saveFailed = false;
+  // Paths an undo or redo changed, so data kept per path can follow
+  private _onDidMovePaths = new vscode.EventEmitter<[string, string][]>();
+  readonly onDidMovePaths: vscode.Event<[string, string][]> = this._onDidMovePaths.event;
+
+  public static getInstance(): ProjectHistory {
+    if (!ProjectHistory.instance) {
+      ProjectHistory.instance = new ProjectHistory();
+    }
+    return ProjectHistory.instance;
+  }
+
+  attach(store: ProjectStore, storagePath: string): void {
+    this.store = store;
+    this.historyFile = path.join(storagePath, HISTORY_FILE);
+    try {
+      const data: HistoryFile = JSON.parse(fs.readFileSync(this.historyFile, "utf-8"));
+      this.undoStack = Array.isArray(data.undo) ? data.undo : [];
+      this.redoStack = Array.isArray(data.redo) ? data.redo : [];
+    } catch (error) {
+      // No history yet, or an unreadable one - start fresh
+    }
+    this.disposables.push(store.onDidUpdate(update => this.record(update)));
+    this.updateContext();
+  }
+
+  // Id of the newest undoable change, so an "Undo" button undoes exactly that change
+  getLatestEntryId(): string | undefined {
+    return this.undoStack[this.undoStack.length - 1]?.id;
+  }
+
+  async undo(entryId?: string): Promise<void> {
+    const entry = this.undoStack[this.undoStack.length - 1];
+    if (!entry) {
+      vscode.window.showInformationMessage("Nothing to undo");
+      return;
+    }
+    if (entryId && entry.id !== entryId) {
+      vscode.window.showWarningMessage(`⚠️ Other changes were made since. Undo "${entry.label}" first.`);
+      return;
+    }
+    if (await this.apply(entry, this.undoStack, this.redoStack)) {
+      vscode.window.showInformationMessage(`↩️ Undone: ${entry.label}`);
+    }
+  }
+
+  async redo(): Promise<void> {
+    const entry = this.redoStack[this.redoStack.length - 1];
+    if (!entry) {
+      vscode.window.showInformationMessage("Nothing to redo");
+      return;
+    }
+    if (await this.apply(entry, this.redoStack, this.undoStack)) {
+      vscode.window.showInformationMessage(`↪️ Redone: ${entry.label}`);
+    }
+  }
+
+  dispose(): void {
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+    this._onDidMovePaths.dispose();
+  }
+
+  private record(update: ProjectStoreUpdate): void {
+    if (this.restoring) return;
+    this.undoStack.push({
+      id: `${Date.now().toString(36)}-${crypto.randomBytes(4).toString("hex")}`,
+      label: update.label,
+      timestamp: Date.now(),
+      restore: snapshotChanged(update.before, update.after),
+      expectedHash: hashState(update.after)
+    });
+    this.undoStack.splice(0, Math.max(0, this.undoStack.length - MAX_ENTRIES));
+    // A new change forks the timeline
+    this.redoStack = [];
+    this.save();
+  }
+
+  // Restores an entry's snapshot and moves its inverse onto the other stack
+  private async apply(entry: HistoryEntry, from: HistoryEntry[], to: HistoryEntry[]): Promise<boolean> {
+    const store = this.store!;
+    const current = this.getState();
+    if (hashState(current) !== entry.expectedHash) {
+      const choice = await vscode.window.showWarningMessage(
+        `The project list was changed outside this history since "${entry.label}" (e.g. edited by hand or synced). Restore it anyway?`,
+        { modal: true },
+        "Restore"
+      );
+      if (choice !== "Restore") return false;
+    }
+
+    const inverse: StateSnapshot = {};
+    (Object.keys(entry.restore) as (keyof ProjectStoreState)[]).forEach(key => copyInto(inverse, current, key));
+
+    this.restoring = true;
+    let written: boolean;
+    try {
+      written = store.update(state => Object.assign(state, JSON.parse(JSON.stringify(entry.restore))), entry.label);
+    } finally {
+      this.restoring = false;
+    }
+    // Nothing written is fine when the lists already look like the snapshot; otherwise the store reported why
+    if (!written && hashState(this.getState()) !== hashState({ ...current, ...entry.restore })) return false;
+
+    from.pop();
+    to.push({ ...entry, restore: inverse, expectedHash: hashState(this.getState()) });
+    this.save();
+    const moves = findPathMoves(current.projects, this.getState().projects);
+    if (moves.length > 0) {
+      this._onDidMovePaths.fire(moves);
+    }
+    return true;
+  }
+
+  private getState(): ProjectStoreState {
+    const store = this.store!;
+    return { projects: store.getProjects(), categories: store.getCategories(), savedSearches: store.getSavedSearches() };
+  }
+
+  private save(): void {
+    this.updateContext();
+    const content = JSON.stringify({ undo: this.undoStack, redo: this.redoStack } as HistoryFile);
+    const historyFile = this.historyFile!;
+    // Writes are chained so an older snapshot never lands after a newer one
+    this.saving = this.saving
+      .then(() => fs.promises.writeFile(historyFile, content, "utf-8"))
+      .then(() => {
+        this.saveFailed = false;
+      })
+      .catch(error => {
+        // Said once; the next successful write clears it
+        if (!this.saveFailed) {
+          this.saveFailed = true;
+          vscode.window.showWarningMessage(`⚠️ Undo history could not be saved and will not survive a reload: ${error instanceof Error ? error.message : error}`);
+        }
+      });
+  }
+
+  private updateContext(): void {
+    vscode.commands.executeCommand("setContext", "messProjectManager.canUndo", this.undoStack.length > 0);
+    vscode.commands.executeCommand("setContext", "messProjectManager.canRedo", this.redoStack.length > 0);
+  }
+}
+
+/**
+ * Information message with an "Undo" button that reverts the change just
+ * made, and only that change.
+ */
+export async function showUndoableMessage(message: string): Promise<void> {
+  const entryId = ProjectHistory.getInstance().getLatestEntryId();
+  const action = await vscode.window.showInformationMessage(message, "Undo");
+  if (action === "Undo") {
+    await vscode.commands.executeCommand("messProjectManager.undo", entryId);
+  }
+}
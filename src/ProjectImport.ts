@@ -0,0 +1,343 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import * as fs from "fs";
+import * as os from "os";
+import { pathKey, ProjectStore } from "./ProjectStore";
+import { expandHome } from "./ProjectDiscovery";
+import { getCategoryPath } from "./CategoryTree";
+import { isRemotePath, REMOTE_SCHEME } from "./RemoteProject";
+import { readLevelDbValues } from "./LevelDb";
+
+export interface ImportCandidate {
+  label: string;
+  path: string;
+  tags?: string[];
+}
+
+interface ImportSource {
+  label: string;
+  description: string;
+  read(): Promise<ImportCandidate[] | undefined>;
+}
+
+// An entry of the internal _workbench.getRecentlyOpened result, as far as it is used here
+interface RecentlyOpenedEntry {
+  label?: string;
+  folderUri?: vscode.Uri;
+  workspace?: { configPath?: vscode.Uri };
+}
+
+// Location of GitHub Desktop's IndexedDB, per platform
+function getGitHubDesktopDatabasePath(): string {
+  const appData = process.platform === "win32"
+    ? process.env.APPDATA || path.join(os.homedir(), "AppData", "Roaming")
+    : process.platform === "darwin"
+      ? path.join(os.homedir(), "Library", "Application Support")
+      : process.env.XDG_CONFIG_HOME || path.join(os.homedir(), ".config");
+  return path.join(appData, "GitHub Desktop", "IndexedDB", "file__0.indexeddb.leveldb");
+}
+
+// Offset of a property's value in a V8-serialized object; names are one-byte strings: '"', length, characters
+function findV8Property(value: Buffer, name: string): number {
+  const key = Buffer.concat([Buffer.from([0x22, name.length]), Buffer.from(name, "latin1")]);
+  const start = value.indexOf(key);
+  return start < 0 ? -1 : start + key.length;
+}
+
+// A string, boolean or null property of a V8-serialized object (the format IndexedDB stores values in)
+function readV8Property(value: Buffer, name: string): string | boolean | null | undefined {
+  let offset = findV8Property(value, name);
+  if (offset < 0) return undefined;
+  while (value[offset] === 0x00) offset++; // Padding before two-byte strings
+
+  const tag = value[offset++];
+  if (tag === 0x54) return true;
+  if (tag === 0x46) return false;
+  if (tag === 0x30) return null;
+  if (tag !== 0x22 && tag !== 0x63 && tag !== 0x53) return undefined;
+
+  let length = 0;
+  for (let multiplier = 1; ; multiplier *= 128) {
+    const byte = value[offset++];
+    if (byte === undefined) return undefined;
+    length += (byte & 0x7f) * multiplier;
+    if (byte < 0x80) break;
+  }
+  if (offset + length > value.length) return undefined;
+  return value.toString(tag === 0x22 ? "latin1" : tag === 0x63 ? "utf16le" : "utf8", offset, offset + length);
+}
+
+function toCandidatePath(uri: vscode.Uri): string {
+  return uri.scheme === "file" ? uri.fsPath : uri.toString();
+}
+
+function labelFor(projectPath: string): string {
+  const name = isRemotePath(projectPath) ? vscode.Uri.parse(projectPath).path : projectPath;
+  return path.basename(name.replace(/[\\/]+$/, "")) || projectPath;
+}
+
+/**
+ * Entries of alefragnani's Project Manager projects.json. rootPath may
+ * start with $home or ~, and disabled entries are still offered.
+ */
+export function parseAlefragnaniProjects(content: string): ImportCandidate[] {
+  const projects = JSON.parse(content);
+  if (!Array.isArray(projects)) {
+    throw new Error("expected a list of projects");
+  }
+  return projects
+    .filter(project => project && typeof project.rootPath === "string" && project.rootPath)
+    .map(project => {
+      const rootPath = expandHome(project.rootPath.replace(/^\$home/i, "~"));
+      return {
+        label: typeof project.name === "string" && project.name ? project.name : labelFor(rootPath),
+        path: rootPath,
+        tags: Array.isArray(project.tags) ? project.tags.filter((tag: unknown): tag is string => typeof tag === "string") : undefined
+      };
+    });
+}
+
+// One path per line; blank lines and # comments are skipped
+export function parsePathList(content: string): ImportCandidate[] {
+  return content.split(/\r?\n/)
+    .map(line => line.trim().replace(/^["']|["']$/g, ""))
+    .filter(line => line && !line.startsWith("#"))
+    .map(line => {
+      const projectPath = isRemotePath(line) ? line : expandHome(line);
+      return { label: labelFor(projectPath), path: projectPath };
+    });
+}
+
+/**
+ * Entries of a text/uri-list drop (VS Code Explorer, OS file manager).
+ * Comment lines and URIs VS Code cannot open as a project are skipped.
+ */
+export function parseUriList(content: string): ImportCandidate[] {
+  return content.split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith("#"))
+    .map(line => vscode.Uri.parse(line))
+    .filter(uri => uri.scheme === "file" || uri.scheme === REMOTE_SCHEME)
+    .map(uri => {
+      const projectPath = toCandidatePath(uri);
+      return { label: labelFor(projectPath), path: projectPath };
+    });
+}
+
+/**
+ * Repositories added to GitHub Desktop, read from its IndexedDB. Records of
+ * the repositories store are the ones with both a path and a
+ * gitHubRepositoryID; those GitHub Desktop marks as missing, and folders
+ * that no longer exist, are left out.
+ */
+export async function readGitHubDesktopRepositories(databasePath: string): Promise<ImportCandidate[]> {
+  const repositories = new Map<string, ImportCandidate>();
+  for (const value of await readLevelDbValues(databasePath)) {
+    const repositoryPath = readV8Property(value, "path");
+    if (typeof repositoryPath !== "string" || !repositoryPath || findV8Property(value, "gitHubRepositoryID") < 0) continue;
+    if (readV8Property(value, "missing") === true) continue;
+
+    try {
+      if (!(await fs.promises.stat(repositoryPath)).isDirectory()) continue;
+    } catch (error) {
+      continue;
+    }
+    const alias = readV8Property(value, "alias");
+    repositories.set(pathKey(repositoryPath), {
+      label: typeof alias === "string" && alias ? alias : labelFor(repositoryPath),
+      path: repositoryPath
+    });
+  }
+  return [...repositories.values()];
+}
+
+/**
+ * "Import Projects" command: pick a source, preview what it contains minus
+ * the projects already listed, then add the selection with a chosen
+ * category and active flag.
+ */
+export class ProjectImporter {
+  constructor(
+    private context: vscode.ExtensionContext,
+    private store: ProjectStore
+  ) {}
+
+  async importProjects(): Promise<void> {
+    const source = await vscode.window.showQuickPick(this.getSources(), {
+      placeHolder: "Where should projects be imported from?"
+    });
+    if (!source) return;
+
+    let candidates: ImportCandidate[] | undefined;
+    try {
+      candidates = await source.read();
+    } catch (error) {
+      vscode.window.showErrorMessage(`❌ Failed to read ${source.label}: ${error instanceof Error ? error.message : error}`);
+      return;
+    }
+    if (!candidates) return;
+
+    // Dedupe against the store and within the source itself
+    const known = new Set(this.store.getProjects().map(p => pathKey(p.path)));
+    const unique = new Map<string, ImportCandidate>();
+    for (const candidate of candidates) {
+      const key = pathKey(candidate.path);
+      if (!known.has(key) && !unique.has(key)) {
+        unique.set(key, candidate);
+      }
+    }
+    const duplicates = candidates.length - unique.size;
+
+    if (unique.size === 0) {
+      vscode.window.showInformationMessage(
+        candidates.length === 0
+          ? `No projects found in ${source.label}`
+          : `ℹ️ All ${candidates.length} project(s) from ${source.label} are already in your list`
+      );
+      return;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+      [...unique.values()].map(candidate => ({
+        label: candidate.label,
+        description: candidate.path,
+        detail: candidate.tags?.length ? candidate.tags.map(tag => `#${tag}`).join(" ") : undefined,
+        picked: true,
+        candidate
+      })),
+      {
+        canPickMany: true,
+        matchOnDescription: true,
+        placeHolder: `${unique.size} project(s) to import${duplicates > 0 ? `, ${duplicates} already listed or duplicated` : ""} - select the ones to add`
+      }
+    );
+    if (!selected || selected.length === 0) return;
+
+    const categories = this.store.getCategories();
+    const category = await vscode.window.showQuickPick(
+      [
+        { label: "Uncategorized", id: undefined as string | undefined },
+        ...categories.map(c => ({ label: getCategoryPath(categories, c.id) || c.name, id: c.id as string | undefined }))
+      ],
+      { placeHolder: "Select a category for the imported projects" }
+    );
+    if (!category) return;
+
+    const activeChoice = await vscode.window.showQuickPick(
+      [
+        { label: "Active", description: "Show the imported projects right away", active: true },
+        { label: "Inactive", description: "Hide them until shown with Toggle Show Inactive", active: false }
+      ],
+      { placeHolder: "Import the projects as active or inactive?" }
+    );
+    if (!activeChoice) return;
+
+    let added = 0;
+    const saved = this.store.update(state => {
+      for (const { candidate } of selected) {
+        if (state.projects.some(p => pathKey(p.path) === pathKey(candidate.path))) continue;
+        added++;
+        state.projects.push({
+          label: candidate.label,
+          path: candidate.path,
+          active: activeChoice.active,
+          ...(category.id ? { category: category.id } : {}),
+          ...(candidate.tags?.length ? { tags: candidate.tags } : {})
+        });
+      }
+    }, `Import ${selected.length} project(s)`);
+    if (!saved) return;
+
+    vscode.window.showInformationMessage(`✅ Imported ${added} project(s) from ${source.label}`);
+  }
+
+  private getSources(): ImportSource[] {
+    return [
+      {
+        label: "$(briefcase) Project Manager (alefragnani)",
+        description: "projects.json of the Project Manager extension",
+        read: () => this.readAlefragnaniProjects()
+      },
+      {
+        label: "$(history) Recently Opened",
+        description: "Folders and workspaces from VS Code's history",
+        read: () => this.readRecentlyOpened()
+      },
+      {
+        label: "$(github) GitHub Desktop",
+        description: "Repositories added to GitHub Desktop",
+        read: () => this.readGitHubDesktop()
+      },
+      {
+        label: "$(list-flat) Path List",
+        description: "A text file or the clipboard, one path per line",
+        read: () => this.readPathList()
+      }
+    ];
+  }
+
+  private async readAlefragnaniProjects(): Promise<ImportCandidate[] | undefined> {
+    // Our global storage folder sits next to the other extensions' ones
+    const configured = vscode.workspace.getConfiguration("projectManager").get<string>("projectsLocation", "");
+    const defaultFile = configured
+      ? path.join(expandHome(configured), "projects.json")
+      : path.join(path.dirname(this.context.globalStorageUri.fsPath), "alefragnani.project-manager", "projects.json");
+
+    const file = fs.existsSync(defaultFile) ? defaultFile : await this.pickFile("Select Project Manager's projects.json", { "JSON": ["json"] });
+    if (!file) return undefined;
+    return parseAlefragnaniProjects(await fs.promises.readFile(file, "utf-8"));
+  }
+
+  private async readRecentlyOpened(): Promise<ImportCandidate[] | undefined> {
+    // Internal command, but the only way to reach the history from an extension
+    let recent: { workspaces?: RecentlyOpenedEntry[] } | undefined;
+    try {
+      recent = await vscode.commands.executeCommand<{ workspaces?: RecentlyOpenedEntry[] }>("_workbench.getRecentlyOpened");
+    } catch (error) {
+      vscode.window.showWarningMessage("⚠️ This version of VS Code does not share its recently opened list");
+      return undefined;
+    }
+    const workspaces = recent && Array.isArray(recent.workspaces) ? recent.workspaces : [];
+    return workspaces
+      .map(entry => {
+        const uri = entry.folderUri || entry.workspace?.configPath;
+        if (!uri) return undefined;
+        const projectPath = toCandidatePath(uri);
+        return { label: entry.label ? labelFor(entry.label) : labelFor(projectPath), path: projectPath };
+      })
+      .filter((candidate): candidate is ImportCandidate => !!candidate);
+  }
+
+  private async readGitHubDesktop(): Promise<ImportCandidate[] | undefined> {
+    const databasePath = getGitHubDesktopDatabasePath();
+    if (!fs.existsSync(databasePath)) {
+      vscode.window.showWarningMessage(`⚠️ GitHub Desktop data not found at ${databasePath}`);
+      return undefined;
+    }
+    return readGitHubDesktopRepositories(databasePath);
+  }
+
+  private async readPathList(): Promise<ImportCandidate[] | undefined> {
+    const from = await vscode.window.showQuickPick(["From File...", "From Clipboard"], {
+      placeHolder: "Where is the path list?"
+    });
+    if (!from) return undefined;
+
+    if (from === "From Clipboard") {
+      return parsePathList(await vscode.env.clipboard.readText());
+    }
+    const file = await this.pickFile("Select a path list", { "Text": ["txt", "lst"], "All Files": ["*"] });
+    return file ? parsePathList(await fs.promises.readFile(file, "utf-8")) : undefined;
+  }
+
+  private async pickFile(openLabel: string, filters: { [name: string]: string[] }): Promise<string | undefined> {
+    const picked = await vscode.window.showOpenDialog({
+      canSelectFiles: true,
+      canSelectFolders: false,
+      canSelectMany: false,
+      filters,
+      openLabel
+    });
+    return picked && picked.length > 0 ? picked[0].fsPath : undefined;
+  }
+}
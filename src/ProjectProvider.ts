@@ -1,15 +1,23 @@
 import * as vscode from "vscode";
 import * as path from "path";
 import * as fs from "fs";
-import { ProjectCategory } from "./types";
-
-interface ProjectEntry {
-  label: string;
-  path: string;
-  active: boolean;
-  category?: string;
-  favorite?: boolean;
-}
+import { ProjectCategory, ProjectEntry, SavedSearch } from "./types";
+import { pathKey, ProjectStore } from "./ProjectStore";
+import { PENDING_PROJECT_TYPE, ProjectTypeCache } from "./ProjectTypeCache";
+import { getDetectionRule } from "./DetectionRules";
+import { formatProfileLines } from "./TechnologyProfile";
+import { describeRemote, isRemotePath, toProjectUri } from "./RemoteProject";
+import { isWorkspaceFile, readWorkspaceFolders, WORKSPACE_EXTENSION } from "./WorkspaceProject";
+import { canReparent, getCategoryPath, getChildCategories, getDescendantIds, getEffectiveCategory } from "./CategoryTree";
+import { ProjectQuery, ProjectQueryContext, matchesProjectQuery, parseProjectQuery, queryUsesField } from "./ProjectQuery";
+import { GitStatusCache } from "./GitStatus";
+import { MonorepoPackage } from "./MonorepoPackages";
+import { ProjectHealth } from "./ProjectHealth";
+import { showUndoableMessage } from "./ProjectHistory";
+import { ProjectUsageTracker } from "./ProjectUsage";
+import { getCategoryColor } from "./ProjectDecorations";
+import { ImportCandidate, parseUriList } from "./ProjectImport";
+import { getSortModeLabel, isProjectSortMode, ProjectSortContext, ProjectSortMode, ProjectTimestampCache, sortProjects } from "./ProjectSort";
 
 export class ProjectItem extends vscode.TreeItem {
   constructor(
@@ -21,7 +29,9 @@ export class ProjectItem extends vscode.TreeItem {
     public readonly category?: string,
     public readonly isCategory: boolean = false,
     public readonly favorite: boolean = false,
-    public readonly projectType?: string
+    public readonly projectType?: string,
+    public readonly tags: string[] = [],
+    public readonly categoryPath?: string
   ) {
     super(label, collapsibleState);
     
@@ -32,7 +42,7 @@ export class ProjectItem extends vscode.TreeItem {
     } else {
       this.contextValue = "projectItem";
       // Make project items draggable
-      this.resourceUri = this.fullPath ? vscode.Uri.file(this.fullPath) : undefined;
+      this.resourceUri = this.fullPath ? toProjectUri(this.fullPath) : undefined;
     }
     
     this.tooltip = this.fullPath || this.label;
@@ -41,14 +51,22 @@ export class ProjectItem extends vscode.TreeItem {
     
     // Set description and visual styling for leaf nodes
     if (this.fullPath && children.length === 0) {
-      this.description = this.fullPath;
+      // Remote projects show where they live instead of the raw URI
+      this.description = this.isRemote()
+        ? `${describeRemote(this.fullPath)} • ${toProjectUri(this.fullPath).path}`
+        : this.fullPath;
 
       if (!this.active) {
         this.description += " (inactive)";
       }
       
       if (this.category) {
-        this.description += ` [${this.category}]`;
+        this.description += ` [${this.categoryPath || this.category}]`;
+      }
+
+      if (this.tags.length > 0) {
+        this.description += ` ${this.tags.map(tag => `#${tag}`).join(" ")}`;
+        this.tooltip += `\nTags: ${this.tags.join(", ")}`;
       }
       
       // if (this.favorite) {
@@ -73,11 +91,51 @@ export class ProjectItem extends vscode.TreeItem {
     return this.fullPath || "";
   }
 
+  isRemote(): boolean {
+    return !!this.fullPath && isRemotePath(this.fullPath);
+  }
+
+  isWorkspace(): boolean {
+    return this.contextValue === "projectItem" && !!this.fullPath && isWorkspaceFile(this.fullPath);
+  }
+
+  // Folder to start terminals or file explorers in - a workspace file's own folder
+  getWorkingDirectory(): string {
+    const fullPath = this.getFullPath();
+    return this.isWorkspace() ? path.dirname(fullPath) : fullPath;
+  }
+
   setCustomIcon(iconPath: vscode.ThemeIcon | { light: vscode.Uri; dark: vscode.Uri }) {
     this.iconPath = iconPath;
   }
 }
 
+// A member package of a monorepo project, shown under its root
+export class PackageItem extends ProjectItem {
+  constructor(public readonly pkg: MonorepoPackage, root: ProjectItem, projectType: string) {
+    super(pkg.name, vscode.TreeItemCollapsibleState.None, pkg.path, [], root.active, undefined, false, false, projectType);
+    this.contextValue = "packageItem";
+    this.description = path.relative(root.getFullPath(), pkg.path).replace(/\\/g, "/");
+    this.tooltip = `${pkg.path}\nPackage of ${root.label} (${pkg.manager})`;
+  }
+}
+
+export type ProjectDetailsChanges = Partial<Pick<ProjectEntry, "label" | "description" | "tags" | "category" | "links" | "icon" | "notes">>;
+
+type OptionalDetailsField = Exclude<keyof ProjectDetailsChanges, "label">;
+
+// Stores an optional details field, or removes it when the value is empty
+function setDetailsField<K extends OptionalDetailsField>(project: ProjectEntry, key: K, value: ProjectEntry[K]): void {
+  const isEmpty = value === undefined || value === ""
+    || (Array.isArray(value) && value.length === 0)
+    || (typeof value === "object" && !Array.isArray(value) && Object.values(value).every(v => !v));
+  if (isEmpty) {
+    delete project[key];
+  } else {
+    project[key] = value;
+  }
+}
+
 export class ProjectProvider implements vscode.TreeDataProvider<ProjectItem>, vscode.TreeDragAndDropController<ProjectItem> {
   private _onDidChangeTreeData: vscode.EventEmitter<ProjectItem | undefined | void> =
     new vscode.EventEmitter<ProjectItem | undefined | void>();
@@ -85,40 +143,109 @@ export class ProjectProvider implements vscode.TreeDataProvider<ProjectItem>, vs
     this._onDidChangeTreeData.event;
 
   // Drag and drop support
-  public readonly dragMimeTypes = ['application/vnd.code.tree.messProjectManager'];
-  public readonly dropMimeTypes = ['application/vnd.code.tree.messProjectManager'];
+  public readonly dragMimeTypes = ['application/vnd.code.tree.messProjectManager', 'application/vnd.code.tree.messProjectManager.category', 'application/vnd.code.tree.messProjectManager.savedSearch'];
+  // text/uri-list: folders dragged in from the Explorer or the OS file manager
+  public readonly dropMimeTypes = ['application/vnd.code.tree.messProjectManager', 'application/vnd.code.tree.messProjectManager.category', 'application/vnd.code.tree.messProjectManager.savedSearch', 'text/uri-list'];
 
-  private projects: ProjectEntry[] = [];
-  private categories: ProjectCategory[] = [];
   private showInactiveProjects: boolean = false;
-  private searchFilter: string = "";
+  private groupByTag: boolean = false;
+  private searchQuery: ProjectQuery = parseProjectQuery("");
+  private profiledItems: WeakSet<ProjectItem> = new WeakSet();
 
   constructor(
     protected context: vscode.ExtensionContext,
+    protected store: ProjectStore,
+    protected usageTracker: ProjectUsageTracker,
     private viewId: string = "messProjectManagerTreeView",
     private showCategories: boolean = true
   ) {
-    this.loadProjects();
-    if (this.showCategories) {
-      this.loadCategories();
-    }
     this.loadShowInactiveProjects();
+    this.loadGroupByTag();
+    context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(e => {
+      if (e.affectsConfiguration("messProjectManager.sortModes")) {
+        this.refresh();
+      }
+      // Edited in settings; our own toggle has already set the same value
+      if (e.affectsConfiguration("messProjectManager.groupByTag")) {
+        this.loadGroupByTag();
+        this._onDidChangeTreeData.fire();
+      }
+    }));
+    // Opening a project moves it when sorted by usage
+    context.subscriptions.push(usageTracker.onDidChange(() => {
+      const mode = this.getSortMode();
+      if (mode === "lastOpened" || mode === "mostOpened") {
+        this.refresh();
+      }
+    }));
+    // Every view re-renders from the shared store whenever it changes
+    context.subscriptions.push(store.onDidChange(() => this.refresh()));
+    // Icons and type: filters fill in as background detection completes
+    context.subscriptions.push(ProjectTypeCache.getInstance().onDidChange(() => this.onProjectTypesChanged()));
+    // Missing projects get their warning icon (and Missing group) once the health check notices them
+    context.subscriptions.push(ProjectHealth.getInstance().onDidChange(() => this.refresh()));
+    // git: filters are evaluated against cached statuses, re-filter once they come in
+    context.subscriptions.push(GitStatusCache.getInstance().onDidChange(() => this.onGitStatusChanged()));
+    // Disk and commit times are read in the background, sort again once they are in
+    context.subscriptions.push(ProjectTimestampCache.getInstance().onDidChange(() => {
+      const mode = this.getSortMode();
+      if (mode === "lastModified" || mode === "lastCommit") {
+        this.onTimestampsChanged();
+      }
+    }));
   }
 
-  refresh(): void {
-    this.loadProjects();
-    if (this.showCategories) {
-      this.loadCategories();
+  protected onTimestampsChanged(): void {
+    this.refresh();
+  }
+
+  protected onProjectTypesChanged(): void {
+    this.refresh();
+  }
+
+  protected onGitStatusChanged(): void {
+    const savedQueries = this.showCategories
+      ? this.store.getSavedSearches().map(search => parseProjectQuery(search.query))
+      : [];
+    if ([this.searchQuery, ...savedQueries].some(query => queryUsesField(query, "git"))) {
+      this.refresh();
     }
+  }
+
+  refresh(): void {
     this.loadShowInactiveProjects();
     this._onDidChangeTreeData.fire();
   }
 
+  // Sort mode of this view, persisted per view id in messProjectManager.sortModes
+  getSortMode(): ProjectSortMode {
+    const modes = vscode.workspace.getConfiguration("messProjectManager").get<{ [viewId: string]: string }>("sortModes", {});
+    const mode = modes[this.viewId];
+    return isProjectSortMode(mode) ? mode : this.getDefaultSortMode();
+  }
+
+  async setSortMode(mode: ProjectSortMode): Promise<void> {
+    const config = vscode.workspace.getConfiguration("messProjectManager");
+    const modes = config.get<{ [viewId: string]: string }>("sortModes", {});
+    await config.update("sortModes", { ...modes, [this.viewId]: mode }, vscode.ConfigurationTarget.Global);
+  }
+
+  protected getDefaultSortMode(): ProjectSortMode {
+    return "manual";
+  }
+
+  protected getSortContext(): ProjectSortContext {
+    return {
+      getOpenCount: projectPath => this.usageTracker.getUsage(projectPath)?.count || 0,
+      getLastOpened: projectPath => this.usageTracker.getUsage(projectPath)?.lastOpened || 0,
+      getProjectType: projectPath => this.detectProjectType(projectPath)
+    };
+  }
+
   // Toggle show inactive projects
   toggleShowInactiveProjects(): void {
     this.showInactiveProjects = !this.showInactiveProjects;
     this.saveShowInactiveProjects();
-    this.loadProjects();
     this._onDidChangeTreeData.fire();
   }
 
@@ -126,194 +253,352 @@ export class ProjectProvider implements vscode.TreeDataProvider<ProjectItem>, vs
     return this.showInactiveProjects;
   }
 
+  // Toggle grouping the Categories view by tag instead of category
+  async toggleGroupByTag(): Promise<void> {
+    this.groupByTag = !this.groupByTag;
+    this._onDidChangeTreeData.fire();
+    const config = vscode.workspace.getConfiguration('messProjectManager');
+    await config.update('groupByTag', this.groupByTag, vscode.ConfigurationTarget.Global);
+  }
+
+  getGroupByTag(): boolean {
+    return this.groupByTag;
+  }
+
   getCategories(): ProjectCategory[] {
-    return this.categories;
+    return this.store.getCategories();
   }
 
-  addCategory(category: ProjectCategory): void {
-    this.categories.push(category);
-    this.saveCategories();
-    this.refresh();
+  // Every tag used by any project, sorted for pickers
+  getAllTags(): string[] {
+    const tags = new Set<string>();
+    this.store.getProjects().forEach(p => (p.tags || []).forEach(tag => tags.add(tag)));
+    return [...tags].sort((a, b) => a.localeCompare(b));
   }
 
-  removeCategory(categoryId: string): void {
-    this.categories = this.categories.filter(c => c.id !== categoryId);
-    // Remove category from all projects
-    this.projects.forEach(p => {
-      if (p.category === categoryId) {
-        p.category = undefined;
+  addTagsToProjects(projectPaths: string[], tags: string[]): boolean {
+    return this.store.update(state => {
+      for (const project of state.projects) {
+        if (!projectPaths.includes(project.path)) continue;
+        const projectTags = project.tags || [];
+        tags.forEach(tag => {
+          if (!projectTags.includes(tag)) projectTags.push(tag);
+        });
+        project.tags = projectTags;
       }
-    });
-    this.saveProjects();
-    this.saveCategories();
-    this.refresh();
+    }, `Tag ${projectPaths.length} project(s) with ${tags.join(", ")}`);
+  }
+
+  removeTagsFromProjects(projectPaths: string[], tags: string[]): boolean {
+    return this.store.update(state => {
+      for (const project of state.projects) {
+        if (!projectPaths.includes(project.path) || !project.tags) continue;
+        project.tags = project.tags.filter(tag => !tags.includes(tag));
+        if (project.tags.length === 0) {
+          delete project.tags;
+        }
+      }
+    }, `Remove tag(s) ${tags.join(", ")}`);
+  }
+
+  addCategory(category: ProjectCategory): boolean {
+    return this.store.update(state => {
+      state.categories.push(category);
+    }, `Add category "${category.name}"`);
+  }
+
+  renameCategory(categoryId: string, name: string): boolean {
+    const oldName = this.store.getCategories().find(c => c.id === categoryId)?.name || categoryId;
+    return this.store.update(state => {
+      const category = state.categories.find(c => c.id === categoryId);
+      if (category) {
+        category.name = name;
+      }
+    }, `Rename category "${oldName}" to "${name}"`);
+  }
+
+  setCategoryIcon(categoryId: string, icon: string): boolean {
+    return this.store.update(state => {
+      const category = state.categories.find(c => c.id === categoryId);
+      if (category) {
+        category.icon = icon;
+      }
+    }, "Change category icon");
+  }
+
+  /**
+   * Moves every project and subcategory of one category into another and
+   * removes the emptied category. Returns the number of projects moved, or
+   * undefined when nothing was written.
+   */
+  mergeCategory(sourceId: string, targetId: string): number | undefined {
+    const categories = this.store.getCategories();
+    const source = categories.find(c => c.id === sourceId);
+    const target = categories.find(c => c.id === targetId);
+    if (!source || !target || !canReparent(categories, sourceId, targetId)) return undefined;
+
+    let moved = 0;
+    const written = this.store.update(state => {
+      state.projects.forEach(p => {
+        if (p.category === sourceId) {
+          p.category = targetId;
+          moved++;
+        }
+      });
+      state.categories.forEach(c => {
+        if (c.parentId === sourceId) {
+          c.parentId = targetId;
+        }
+      });
+      state.categories = state.categories.filter(c => c.id !== sourceId);
+    }, `Merge category "${source.name}" into "${target.name}"`);
+    return written ? moved : undefined;
+  }
+
+  getSavedSearches(): SavedSearch[] {
+    return this.store.getSavedSearches();
+  }
+
+  addSavedSearch(search: SavedSearch): boolean {
+    return this.store.update(state => {
+      state.savedSearches.push(search);
+    }, `Save search "${search.name}"`);
+  }
+
+  updateSavedSearch(searchId: string, changes: Partial<Omit<SavedSearch, "id">>): boolean {
+    return this.store.update(state => {
+      const search = state.savedSearches.find(s => s.id === searchId);
+      if (search) {
+        Object.assign(search, changes);
+      }
+    }, "Edit saved search");
+  }
+
+  removeSavedSearch(searchId: string): void {
+    this.store.update(state => {
+      state.savedSearches = state.savedSearches.filter(s => s.id !== searchId);
+    }, "Delete saved search");
+  }
+
+  /**
+   * Removes a category. "reparent" moves its subcategories and projects up to
+   * its parent; "uncategorize" also removes the subcategories and leaves every
+   * project below it uncategorized.
+   */
+  removeCategory(categoryId: string, mode: "reparent" | "uncategorize" = "reparent"): boolean {
+    return this.store.update(state => {
+      const removed = state.categories.find(c => c.id === categoryId);
+      const parentId = removed?.parentId;
+      const removedIds = mode === "uncategorize"
+        ? [categoryId, ...getDescendantIds(state.categories, categoryId)]
+        : [categoryId];
+
+      state.categories = state.categories.filter(c => !removedIds.includes(c.id));
+      state.categories.forEach(c => {
+        if (c.parentId === categoryId) {
+          c.parentId = parentId;
+        }
+      });
+
+      state.projects.forEach(p => {
+        if (p.category && removedIds.includes(p.category)) {
+          p.category = mode === "reparent" ? parentId : undefined;
+        }
+      });
+    }, `Remove category "${this.store.getCategories().find(c => c.id === categoryId)?.name || categoryId}"`);
   }
 
   assignProjectToCategory(projectPath: string, categoryId: string | undefined): void {
-    const project = this.projects.find(p => p.path === projectPath);
-    if (project) {
-      project.category = categoryId;
-      this.saveProjects();
-      this.refresh();
+    this.store.update(state => {
+      const project = state.projects.find(p => p.path === projectPath);
+      if (project) {
+        project.category = categoryId;
+      }
+    }, "Assign category");
+  }
+
+  /**
+   * Applies edits from the project details panel. Empty strings, lists and
+   * link sets remove the field instead of storing it empty.
+   */
+  updateProjectDetails(projectPath: string, changes: ProjectDetailsChanges): boolean {
+    return this.store.update(state => {
+      const project: ProjectEntry | undefined = state.projects.find(p => p.path === projectPath);
+      if (!project) return;
+      // A project always keeps a label
+      if (changes.label) project.label = changes.label;
+      if ("description" in changes) setDetailsField(project, "description", changes.description);
+      if ("tags" in changes) setDetailsField(project, "tags", changes.tags);
+      if ("category" in changes) setDetailsField(project, "category", changes.category);
+      if ("links" in changes) setDetailsField(project, "links", changes.links);
+      if ("icon" in changes) setDetailsField(project, "icon", changes.icon);
+      if ("notes" in changes) setDetailsField(project, "notes", changes.notes);
+    }, "Edit project details");
+  }
+
+  toggleProjectFavorite(projectPath: string): boolean {
+    return this.store.update(state => {
+      const project = state.projects.find(p => p.path === projectPath);
+      if (project) {
+        project.favorite = !project.favorite;
+      }
+    }, "Toggle favorite");
+  }
+
+  setProjectsActive(projectPaths: string[], active: boolean): boolean {
+    return this.store.update(state => {
+      state.projects.forEach(p => {
+        if (projectPaths.includes(p.path)) {
+          p.active = active;
+        }
+      });
+    }, `${active ? "Activate" : "Deactivate"} ${projectPaths.length} project(s)`);
+  }
+
+  /**
+   * Points a project at another folder. Its usage history, detected type and
+   * health data move along. Refused when another project already has that path.
+   */
+  changeProjectPath(projectPath: string, newPath: string): boolean {
+    const existing = this.store.findProjectByPath(newPath);
+    if (existing && existing.path !== projectPath) return false;
+
+    const changed = this.store.update(state => {
+      const project = state.projects.find(p => p.path === projectPath);
+      if (project) {
+        project.path = newPath;
+      }
+    }, "Change project path");
+    if (changed) {
+      this.moveProjectData(projectPath, newPath);
     }
+    return changed;
   }
 
-  toggleProjectFavorite(projectPath: string): void {
-    const project = this.projects.find(p => p.path === projectPath);
-    if (project) {
-      project.favorite = !project.favorite;
-      this.saveProjects();
-      this.refresh();
+  // Usage history, detected type and health data of a project whose path changed (or was changed back by undo)
+  moveProjectData(oldPath: string, newPath: string): void {
+    ProjectTypeCache.getInstance().movePath(oldPath, newPath);
+    ProjectHealth.getInstance().movePath(oldPath, newPath);
+    this.usageTracker.moveUsage(oldPath, newPath);
+  }
+
+  // The copy keeps all metadata and is inserted right after the original; it starts without usage history
+  duplicateProject(projectPath: string, newPath: string, label: string): boolean {
+    if (this.store.findProjectByPath(newPath)) return false;
+
+    return this.store.update(state => {
+      const index = state.projects.findIndex(p => p.path === projectPath);
+      if (index !== -1) {
+        state.projects.splice(index + 1, 0, { ...state.projects[index], label, path: newPath });
+      }
+    }, `Duplicate as "${label}"`);
+  }
+
+  removeProjects(projectPaths: string[]): boolean {
+    return this.store.update(state => {
+      state.projects = state.projects.filter(p => !projectPaths.includes(p.path));
+    }, `Remove ${projectPaths.length} project(s)`);
+  }
+
+  // Projects shown in this view: the store always holds the full list,
+  // inactive and search filters only apply here
+  protected getVisibleProjects(): ProjectEntry[] {
+    return this.filterProjects(this.store.getProjects(), this.searchQuery);
+  }
+
+  private filterProjects(projects: ProjectEntry[], query: ProjectQuery): ProjectEntry[] {
+    // Filter by active status, unless the query asks for it explicitly
+    if (!this.showInactiveProjects && !queryUsesField(query, "active")) {
+      projects = projects.filter(project => project.active === true);
+    }
+
+    // Filter by search query
+    if (query.terms.length > 0) {
+      const queryContext = this.getQueryContext();
+      projects = projects.filter(project => matchesProjectQuery(query, project, queryContext));
     }
+
+    return projects;
+  }
+
+  private getQueryContext(): ProjectQueryContext {
+    const categories = this.store.getCategories();
+    const gitStatus = GitStatusCache.getInstance();
+    return {
+      getProjectType: project => this.detectProjectType(project.path),
+      getCategoryPath: project => project.category ? getCategoryPath(categories, project.category) : undefined,
+      getGitInfo: project => {
+        if (!gitStatus.has(project.path)) {
+          gitStatus.request(project.path);
+          return undefined;
+        }
+        return gitStatus.get(project.path) ?? null;
+      }
+    };
   }
 
   setSearchFilter(filter: string): void {
-    this.searchFilter = filter.toLowerCase();
+    this.searchQuery = parseProjectQuery(filter.trim());
     this.refresh();
   }
 
   getSearchFilter(): string {
-    return this.searchFilter;
+    return this.searchQuery.text;
   }
 
   clearSearchFilter(): void {
-    this.searchFilter = "";
+    this.searchQuery = parseProjectQuery("");
     this.refresh();
   }
 
-  protected detectProjectType(projectPath: string): string {
-    if (!fs.existsSync(projectPath)) {
-      return "folder";
+  detectProjectType(projectPath: string): string {
+    // A type set by hand wins over detection
+    const overriddenType = this.store.getProject(projectPath)?.type;
+    if (overriddenType) {
+      return overriddenType;
     }
+    // Remote folders are not reachable through the local file system
+    if (isRemotePath(projectPath)) {
+      return "remote";
+    }
+    // Never blocks the tree: unknown projects render with a placeholder until detected
+    return ProjectTypeCache.getInstance().get(projectPath) ?? PENDING_PROJECT_TYPE;
+  }
 
-    // Check for specific files/folders that indicate project type
-    const files = fs.readdirSync(projectPath);
-
-    // React/Next.js projects
-    if (files.includes("package.json")) {
-      try {
-        const packageJsonPath = path.join(projectPath, "package.json");
-        const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, "utf-8"));
-        
-        // Check dependencies for React/Next.js
-        const deps = { ...packageJson.dependencies, ...packageJson.devDependencies };
-        if (deps.react || deps["@types/react"]) {
-          if (deps.next) return "react"; // Next.js uses React icon
-          return "react";
+  setProjectType(projectPaths: string[], projectType: string | undefined): void {
+    this.store.update(state => {
+      state.projects.forEach(p => {
+        if (projectPaths.includes(p.path)) {
+          p.type = projectType;
         }
-        
-        // Vue.js
-        if (deps.vue || deps["@vue/cli-service"]) return "vue";
-        
-        // Angular
-        if (deps["@angular/core"]) return "angular";
-        
-        // Svelte
-        if (deps.svelte) return "svelte";
-        
-        // Electron
-        if (deps.electron) return "electron";
-        
-        // Express/Node.js server
-        if (deps.express || deps.koa || deps.fastify) return "nodejs";
-        
-        // General Node.js project
-        return "nodejs";
-      } catch (e) {
-        // If can't read package.json, still treat as Node.js
-        return "nodejs";
-      }
-    }
-    
-    // Python projects
-    if (files.includes("requirements.txt") || 
-        files.includes("setup.py") || 
-        files.includes("pyproject.toml") ||
-        files.includes("Pipfile") ||
-        files.some(f => f.endsWith(".py"))) {
-      return "python";
-    }
-    
-    // Java projects
-    if (files.includes("pom.xml") || 
-        files.includes("build.gradle") ||
-        files.includes("build.gradle.kts") ||
-        files.some(f => f.endsWith(".java"))) {
-      return "java";
-    }
-    
-    // C# projects
-    if (files.some(f => f.endsWith(".csproj") || f.endsWith(".sln")) ||
-        files.some(f => f.endsWith(".cs"))) {
-      return "csharp";
-    }
-    
-    // PHP projects
-    if (files.includes("composer.json") || 
-        files.some(f => f.endsWith(".php"))) {
-      return "php";
-    }
-    
-    // Ruby projects
-    if (files.includes("Gemfile") || 
-        files.some(f => f.endsWith(".rb"))) {
-      return "ruby";
-    }
-    
-    // Go projects
-    if (files.includes("go.mod") || 
-        files.some(f => f.endsWith(".go"))) {
-      return "go";
-    }
-    
-    // Flutter/Dart projects
-    if (files.includes("pubspec.yaml") || 
-        files.some(f => f.endsWith(".dart"))) {
-      return "flutter";
-    }
-    
-    // Unity projects
-    if (files.includes("ProjectSettings") && files.includes("Assets")) {
-      return "unity";
-    }
-    
-    // Docker projects
-    if (files.includes("Dockerfile") || files.includes("docker-compose.yml")) {
-      return "docker";
-    }
-    
-    // Git repositories
-    if (files.includes(".git")) {
-      return "git";
-    }
-    
-    // Default folder icon
-    return "folder";
+      });
+    }, "Set project type");
   }
 
-  protected getProjectIcon(projectType: string, isFavorite: boolean = false): vscode.ThemeIcon | { light: vscode.Uri; dark: vscode.Uri } {
+  getProjectIcon(projectType: string, isFavorite: boolean = false): vscode.ThemeIcon | { light: vscode.Uri; dark: vscode.Uri } {
     if (isFavorite) {
       return new vscode.ThemeIcon("star");
     }
 
-    // Custom SVG icons for better visual representation
-    const customIconTypes = ["react", "vue", "angular", "nodejs", "python", "java", "docker", "flutter", "go", "csharp", "php"];
-    
-    if (customIconTypes.includes(projectType)) {
-      const iconPath = path.join(this.context.extensionPath, "icons");
-      return {
-        light: vscode.Uri.file(path.join(iconPath, "light", `${projectType}.svg`)),
-        dark: vscode.Uri.file(path.join(iconPath, "dark", `${projectType}.svg`))
-      };
+    // Icons come from the detection rules: a codicon id or custom SVGs
+    const icon = getDetectionRule(projectType)?.icon;
+    if (icon) {
+      if (typeof icon !== "string" || icon.toLowerCase().endsWith(".svg")) {
+        const light = typeof icon === "string" ? icon : icon.light;
+        const dark = typeof icon === "string" ? icon : icon.dark;
+        return {
+          light: vscode.Uri.file(path.resolve(this.context.extensionPath, light)),
+          dark: vscode.Uri.file(path.resolve(this.context.extensionPath, dark))
+        };
+      }
+      return new vscode.ThemeIcon(icon.replace(/^\$\((.+)\)$/, "$1"), new vscode.ThemeColor("icon.foreground"));
     }
 
-    // Fallback to theme icons for other types
+    // Fallback to theme icons for types without a rule
     const iconMap: { [key: string]: string } = {
-      "svelte": "flame",
-      "ruby": "ruby",
-      "unity": "symbol-misc",
-      "git": "source-control",
-      "electron": "device-desktop",
+      "remote": "remote",
+      "workspace": "root-folder",
+      [PENDING_PROJECT_TYPE]: "loading~spin",
       "folder": "folder"
     };
 
@@ -323,24 +608,55 @@ export class ProjectProvider implements vscode.TreeDataProvider<ProjectItem>, vs
 
   // Drag and Drop Implementation
   public async handleDrag(source: ProjectItem[], dataTransfer: vscode.DataTransfer, token: vscode.CancellationToken): Promise<void> {
-    // Only allow dragging actual projects (not categories)
-    const draggableItems = source.filter(item => !item.isCategory && item.fullPath);
+    // Real categories (not Favorites/Uncategorized/tag groups) can be dragged to reorder or nest them
+    const draggedCategories = source.filter(item => item.contextValue === "categoryItem" && this.isRealCategory(item.category));
+    if (draggedCategories.length > 0) {
+      dataTransfer.set('application/vnd.code.tree.messProjectManager.category', new vscode.DataTransferItem(JSON.stringify(draggedCategories.map(item => item.category))));
+    }
+
+    const draggedSearches = source.filter(item => item.contextValue === "savedSearchItem");
+    if (draggedSearches.length > 0) {
+      dataTransfer.set('application/vnd.code.tree.messProjectManager.savedSearch', new vscode.DataTransferItem(JSON.stringify(draggedSearches.map(item => item.category))));
+    }
+
+    // Only allow dragging actual projects (not categories or workspace member folders)
+    const draggableItems = source.filter(item => item.contextValue === "projectItem" && item.fullPath);
     if (draggableItems.length === 0) return;
-    
+
     const dragData = draggableItems.map(item => ({
       label: item.label,
       path: item.fullPath,
       category: item.category,
       favorite: item.favorite,
-      active: item.active
+      active: item.active,
+      tags: item.tags
     }));
     
     dataTransfer.set('application/vnd.code.tree.messProjectManager', new vscode.DataTransferItem(JSON.stringify(dragData)));
   }
 
   public async handleDrop(target: ProjectItem | undefined, dataTransfer: vscode.DataTransfer, token: vscode.CancellationToken): Promise<void> {
+    const categoryTransferItem = dataTransfer.get('application/vnd.code.tree.messProjectManager.category');
+    if (categoryTransferItem && this.showCategories) {
+      await this.dropCategories(JSON.parse(categoryTransferItem.value as string), target);
+      return;
+    }
+
+    const savedSearchTransferItem = dataTransfer.get('application/vnd.code.tree.messProjectManager.savedSearch');
+    if (savedSearchTransferItem && this.showCategories) {
+      this.reorderSavedSearches(JSON.parse(savedSearchTransferItem.value as string), target);
+      return;
+    }
+
+    // Checked before uri-list, which VS Code also fills in when dragging our own items
     const transferItem = dataTransfer.get('application/vnd.code.tree.messProjectManager');
-    if (!transferItem) return;
+    if (!transferItem) {
+      const uriListItem = dataTransfer.get('text/uri-list');
+      if (uriListItem) {
+        this.addDroppedProjects(parseUriList(await uriListItem.asString()), target);
+      }
+      return;
+    }
 
     let dragData: any[];
     try {
@@ -350,10 +666,35 @@ export class ProjectProvider implements vscode.TreeDataProvider<ProjectItem>, vs
       return;
     }
 
+    // A sorted view decides the order itself, dragging can only change categories and tags
+    const reorders = !target || (!target.isCategory && !["missingGroupItem", "savedSearchItem", "tagItem"].includes(target.contextValue || ""));
+    const sortMode = this.getSortMode();
+    if (reorders && sortMode !== "manual") {
+      const action = await vscode.window.showInformationMessage(
+        `ℹ️ Projects are sorted by ${getSortModeLabel(sortMode)}. Switch to manual sorting to reorder them by dragging.`,
+        "Sort Manually"
+      );
+      if (action === "Sort Manually") {
+        await this.setSortMode("manual");
+      }
+      return;
+    }
+
     // Handle different drop scenarios
     if (!target) {
       // Dropped on empty space - move to end of list
       this.moveProjectsToEnd(dragData);
+    } else if (target.contextValue === "missingGroupItem") {
+      vscode.window.showInformationMessage("ℹ️ Projects are listed under Missing when their path no longer exists.");
+    } else if (target.contextValue === "savedSearchItem") {
+      // Membership of a saved search comes from its query
+      vscode.window.showInformationMessage("ℹ️ Saved searches pick their projects by query. Edit the search to change what it shows.");
+    } else if (target.contextValue === "tagItem" && target.category) {
+      // Dropped on a tag group - add that tag
+      this.addTagsToProjects(dragData.map(p => p.path), [target.category]);
+    } else if (target.isCategory && target.category === "favorites") {
+      // Dropped on Favorites - star them, as dropping folders from outside does
+      this.addProjectsToFavorites(dragData);
     } else if (target.isCategory) {
       // Dropped on a category - assign to that category
       this.assignProjectsToCategory(dragData, target.category);
@@ -363,137 +704,292 @@ export class ProjectProvider implements vscode.TreeDataProvider<ProjectItem>, vs
     }
   }
 
-  private moveProjectsToEnd(draggedProjects: any[]): void {
-    for (const draggedProject of draggedProjects) {
-      const projectIndex = this.projects.findIndex(p => p.path === draggedProject.path);
-      if (projectIndex !== -1) {
-        const project = this.projects.splice(projectIndex, 1)[0];
-        this.projects.push(project);
+  /**
+   * Registers folders and workspace files dropped from outside the views.
+   * Dropping onto a category assigns it, onto Favorites marks them favorite
+   * and onto a tag group tags them; projects already listed are reported.
+   */
+  private addDroppedProjects(candidates: ImportCandidate[], target: ProjectItem | undefined): void {
+    const categoryId = target?.isCategory && this.isRealCategory(target.category) ? target.category : undefined;
+    const favorite = target?.isCategory && target.category === "favorites";
+    const tag = target?.contextValue === "tagItem" ? target.category : undefined;
+
+    const added: ProjectEntry[] = [];
+    const duplicates: string[] = [];
+    let skipped = 0;
+    const seen = new Set<string>();
+    for (const candidate of candidates) {
+      if (seen.has(pathKey(candidate.path))) continue;
+      seen.add(pathKey(candidate.path));
+
+      const existing = this.store.findProjectByPath(candidate.path);
+      if (existing) {
+        duplicates.push(existing.label);
+        continue;
       }
+      // Files other than .code-workspace cannot be opened as a project
+      if (!isRemotePath(candidate.path) && !isWorkspaceFile(candidate.path)) {
+        try {
+          if (!fs.statSync(candidate.path).isDirectory()) {
+            skipped++;
+            continue;
+          }
+        } catch (error) {
+          skipped++;
+          continue;
+        }
+      }
+      added.push({
+        label: candidate.label,
+        path: candidate.path,
+        active: true,
+        ...(categoryId ? { category: categoryId } : {}),
+        ...(favorite ? { favorite: true } : {}),
+        ...(tag ? { tags: [tag] } : {})
+      });
+    }
+
+    if (added.length > 0) {
+      const destination = categoryId
+        ? ` to ${getCategoryPath(this.store.getCategories(), categoryId) || categoryId}`
+        : favorite ? " to Favorites" : tag ? ` tagged #${tag}` : "";
+      const saved = this.store.update(state => {
+        state.projects.push(...added);
+      }, `Add ${added.length} dropped project(s)`);
+      if (saved) {
+        showUndoableMessage(`✅ Added ${added.length} project(s)${destination}`);
+      }
+    }
+    if (duplicates.length > 0) {
+      vscode.window.showWarningMessage(`⚠️ Already in the list: ${duplicates.join(", ")}`);
+    }
+    if (skipped > 0) {
+      vscode.window.showWarningMessage(`⚠️ ${skipped} dropped item(s) skipped - only folders and ${WORKSPACE_EXTENSION} files can be added as projects`);
     }
-    this.saveProjects();
-    this.refresh();
   }
 
-  private assignProjectsToCategory(draggedProjects: any[], categoryId: string | undefined): void {
-    for (const draggedProject of draggedProjects) {
-      const project = this.projects.find(p => p.path === draggedProject.path);
-      if (project) {
-        project.category = categoryId;
+  private isRealCategory(categoryId: string | undefined): boolean {
+    return !!categoryId && this.store.getCategories().some(c => c.id === categoryId);
+  }
+
+  /**
+   * Dropping categories onto a category nests them, or - when they already
+   * share its parent - asks whether to put them before it instead. Anywhere
+   * else moves them to the end of the top level.
+   */
+  private async dropCategories(categoryIds: string[], target: ProjectItem | undefined): Promise<void> {
+    const categories = this.store.getCategories();
+    const targetCategory = target && target.contextValue === "categoryItem"
+      ? categories.find(c => c.id === target.category)
+      : undefined;
+    if (targetCategory && categoryIds.includes(targetCategory.id)) return;
+
+    const effectiveParent = (id: string) => {
+      const parentId = categories.find(c => c.id === id)?.parentId;
+      return parentId && categories.some(c => c.id === parentId) ? parentId : undefined;
+    };
+
+    if (targetCategory && categoryIds.every(id => effectiveParent(id) === effectiveParent(targetCategory.id))) {
+      const placement = await vscode.window.showQuickPick(
+        [
+          { label: `$(arrow-up) Move Before "${targetCategory.name}"`, nest: false },
+          { label: `$(indent) Move Into "${targetCategory.name}"`, nest: true }
+        ],
+        { placeHolder: "Where should the dragged categories go?" }
+      );
+      if (!placement) return;
+      if (!placement.nest) {
+        this.reorderCategories(categoryIds, targetCategory.id, effectiveParent(targetCategory.id));
+        return;
       }
     }
-    this.saveProjects();
-    this.refresh();
-    
+
+    const newParentId = targetCategory?.id;
+    const movable = categoryIds.filter(id => canReparent(categories, id, newParentId));
+    if (movable.length < categoryIds.length) {
+      vscode.window.showWarningMessage("⚠️ A category cannot be moved into itself or one of its subcategories");
+    }
+    if (movable.length === 0) return;
+
+    this.store.update(state => {
+      const moved = state.categories.filter(c => movable.includes(c.id));
+      moved.forEach(c => c.parentId = newParentId);
+      // Order among siblings follows categories.json, so moved categories end up last
+      state.categories = [...state.categories.filter(c => !movable.includes(c.id)), ...moved];
+    }, "Move categories");
+  }
+
+  // Puts the categories right before a sibling, under the same parent
+  private reorderCategories(categoryIds: string[], beforeId: string, parentId: string | undefined): void {
+    this.store.update(state => {
+      const moved = state.categories.filter(c => categoryIds.includes(c.id));
+      moved.forEach(c => c.parentId = parentId);
+      state.categories = state.categories.filter(c => !categoryIds.includes(c.id));
+      const targetIndex = state.categories.findIndex(c => c.id === beforeId);
+      state.categories.splice(targetIndex === -1 ? state.categories.length : targetIndex, 0, ...moved);
+    }, "Reorder categories");
+  }
+
+  // Dropping saved searches onto another one puts them before it; anywhere else moves them to the end
+  private reorderSavedSearches(searchIds: string[], target: ProjectItem | undefined): void {
+    const targetId = target?.contextValue === "savedSearchItem" ? target.category : undefined;
+    if (targetId && searchIds.includes(targetId)) return;
+
+    this.store.update(state => {
+      const moved = state.savedSearches.filter(s => searchIds.includes(s.id));
+      state.savedSearches = state.savedSearches.filter(s => !searchIds.includes(s.id));
+      const targetIndex = state.savedSearches.findIndex(s => s.id === targetId);
+      state.savedSearches.splice(targetIndex === -1 ? state.savedSearches.length : targetIndex, 0, ...moved);
+    }, "Reorder saved searches");
+  }
+
+  private moveProjectsToEnd(draggedProjects: any[]): void {
+    this.store.update(state => {
+      for (const draggedProject of draggedProjects) {
+        const projectIndex = state.projects.findIndex(p => p.path === draggedProject.path);
+        if (projectIndex !== -1) {
+          const project = state.projects.splice(projectIndex, 1)[0];
+          state.projects.push(project);
+        }
+      }
+    }, "Move projects");
+  }
+
+  private assignProjectsToCategory(draggedProjects: any[], categoryId: string | undefined): void {
     const categoryName = categoryId 
-      ? this.categories.find(c => c.id === categoryId)?.name || categoryId
+      ? this.store.getCategories().find(c => c.id === categoryId)?.name || categoryId
       : 'Uncategorized';
+
+    const moved = this.store.update(state => {
+      for (const draggedProject of draggedProjects) {
+        const project = state.projects.find(p => p.path === draggedProject.path);
+        if (project) {
+          project.category = categoryId;
+        }
+      }
+    }, `Move ${draggedProjects.length} project(s) to ${categoryName}`);
     
-    vscode.window.showInformationMessage(
-      `✅ ${draggedProjects.length} project(s) moved to ${categoryName}`
-    );
+    if (moved) {
+      showUndoableMessage(`✅ ${draggedProjects.length} project(s) moved to ${categoryName}`);
+    }
   }
 
-  private reorderProjects(draggedProjects: any[], targetProject: ProjectItem): void {
-    const targetIndex = this.projects.findIndex(p => p.path === targetProject.fullPath);
-    if (targetIndex === -1) return;
-
-    // Remove dragged projects from their current positions
-    const movedProjects: ProjectEntry[] = [];
-    for (const draggedProject of draggedProjects) {
-      const projectIndex = this.projects.findIndex(p => p.path === draggedProject.path);
-      if (projectIndex !== -1) {
-        movedProjects.push(this.projects.splice(projectIndex, 1)[0]);
+  private addProjectsToFavorites(draggedProjects: any[]): void {
+    const starred = this.store.update(state => {
+      for (const draggedProject of draggedProjects) {
+        const project = state.projects.find(p => p.path === draggedProject.path);
+        if (project) {
+          project.favorite = true;
+        }
       }
+    }, `Add ${draggedProjects.length} project(s) to favorites`);
+
+    if (starred) {
+      showUndoableMessage(`⭐ ${draggedProjects.length} project(s) added to favorites`);
     }
+  }
 
-    // Insert at target position
-    const newTargetIndex = this.projects.findIndex(p => p.path === targetProject.fullPath);
-    this.projects.splice(newTargetIndex, 0, ...movedProjects);
+  private reorderProjects(draggedProjects: any[], targetProject: ProjectItem): void {
+    if (!this.store.getProject(targetProject.fullPath || "")) return;
+    // Dropping a project onto itself is a no-op
+    if (draggedProjects.some(p => p.path === targetProject.fullPath)) return;
 
-    this.saveProjects();
-    this.refresh();
+    this.store.update(state => {
+      // Remove dragged projects from their current positions
+      const movedProjects: ProjectEntry[] = [];
+      for (const draggedProject of draggedProjects) {
+        const projectIndex = state.projects.findIndex(p => p.path === draggedProject.path);
+        if (projectIndex !== -1) {
+          movedProjects.push(state.projects.splice(projectIndex, 1)[0]);
+        }
+      }
+
+      // Insert at target position
+      const newTargetIndex = state.projects.findIndex(p => p.path === targetProject.fullPath);
+      state.projects.splice(newTargetIndex, 0, ...movedProjects);
+    }, "Reorder projects");
     
     // vscode.window.showInformationMessage(
     //   `✅ Reordered ${draggedProjects.length} project(s)`
     // );
   }
 
-  private saveProjects(): void {
-    const filePath = path.join(this.context.globalStorageUri.fsPath, "projects.json");
-    const projectsData = { projects: this.projects };
-    fs.writeFileSync(filePath, JSON.stringify(projectsData, null, 2));
-  }
-
   getTreeItem(element: ProjectItem): vscode.TreeItem {
+    // Types only need to stay current for projects on screen
+    const isProject = element.contextValue === "projectItem" || element.contextValue === "workspaceFolderItem" || element.contextValue === "packageItem";
+    if (isProject && element.fullPath) {
+      ProjectTypeCache.getInstance().watch(element.fullPath);
+    }
     return element;
   }
 
+  // The technology profile scans subfolders, so it is only worked out when a tooltip is about to show
+  async resolveTreeItem(item: vscode.TreeItem, element: ProjectItem): Promise<vscode.TreeItem> {
+    const isProject = element.contextValue === "projectItem" || element.contextValue === "workspaceFolderItem" || element.contextValue === "packageItem";
+    if (!isProject || !element.fullPath || element.isRemote() || this.profiledItems.has(element)) {
+      return item;
+    }
+    this.profiledItems.add(element);
+
+    const lines = formatProfileLines(await ProjectTypeCache.getInstance().getProfile(element.fullPath));
+    if (lines.length > 0) {
+      item.tooltip = `${item.tooltip || element.fullPath}\n\n${lines.join("\n")}`;
+    }
+    return item;
+  }
+
   getChildren(element?: ProjectItem): Thenable<ProjectItem[]> {
     if (!element) {
-      return Promise.resolve(this.buildTree());
+      return Promise.resolve(this.withConfigError(this.buildTree()));
+    }
+    if (element.isWorkspace()) {
+      return Promise.resolve(this.buildWorkspaceFolderItems(element));
+    }
+    if (element.contextValue === "projectItem" && element.fullPath && element.children.length === 0) {
+      return Promise.resolve(this.buildPackageItems(element));
     }
     return Promise.resolve(element.children);
   }
 
-  private loadProjects() {
-    const filePath = path.join(this.context.globalStorageUri.fsPath, "projects.json");
-    if (fs.existsSync(filePath)) {
-      try {
-        const raw = fs.readFileSync(filePath, "utf-8");
-        const parsed = JSON.parse(raw);
-        let projects = parsed.projects || [];
-        
-        // Filter by active status
-        if (!this.showInactiveProjects){
-          projects = projects.filter((project: ProjectEntry) => project.active == true);
-        }
-        
-        // Filter by search term
-        if (this.searchFilter) {
-          projects = projects.filter((project: ProjectEntry) => {
-            const nameMatch = project.label.toLowerCase().includes(this.searchFilter);
-            const pathMatch = project.path.toLowerCase().includes(this.searchFilter);
-            return nameMatch || pathMatch;
-          });
-        }
-        
-        this.projects = projects;
-      } catch (e) {
-        console.error("Failed to parse projects.json", e);
-        this.projects = [];
-      }
-    } else {
-      this.projects = [];
-    }
+  // Monorepo roots expand once their packages have been discovered
+  protected hasPackages(projectPath: string): boolean {
+    return !isRemotePath(projectPath) && !isWorkspaceFile(projectPath)
+      && ProjectTypeCache.getInstance().getPackages(projectPath).length > 0;
   }
 
-  private loadCategories() {
-    const filePath = path.join(this.context.globalStorageUri.fsPath, "categories.json");
-    if (fs.existsSync(filePath)) {
-      try {
-        const raw = fs.readFileSync(filePath, "utf-8");
-        const parsed = JSON.parse(raw);
-        this.categories = parsed.categories || [];
-      } catch (e) {
-        console.error("Failed to parse categories.json", e);
-        this.categories = [];
-      }
-    } else {
-      // Default categories
-      this.categories = [
-        // { id: "work", name: "Work", icon: "briefcase" },
-        // { id: "personal", name: "Personal", icon: "home" },
-        // { id: "learning", name: "Learning", icon: "mortar-board" }
-      ];
-      this.saveCategories();
-    }
+  protected buildPackageItems(rootItem: ProjectItem): ProjectItem[] {
+    return ProjectTypeCache.getInstance().getPackages(rootItem.getFullPath()).map(pkg => {
+      const projectType = this.detectProjectType(pkg.path);
+      const packageItem = new PackageItem(pkg, rootItem, projectType);
+      packageItem.setCustomIcon(this.getProjectIcon(projectType));
+      return packageItem;
+    });
+  }
+
+  // Member folders of a .code-workspace project, read when the item is expanded
+  protected buildWorkspaceFolderItems(workspaceItem: ProjectItem): ProjectItem[] {
+    return readWorkspaceFolders(workspaceItem.getFullPath()).map(folder => {
+      const projectType = this.detectProjectType(folder.path);
+      const folderItem = new ProjectItem(
+        folder.name,
+        vscode.TreeItemCollapsibleState.None,
+        folder.path,
+        [],
+        workspaceItem.active,
+        undefined,
+        false,
+        false,
+        projectType
+      );
+      folderItem.contextValue = "workspaceFolderItem";
+      folderItem.setCustomIcon(this.getProjectIcon(projectType));
+      return folderItem;
+    });
   }
 
-  private saveCategories() {
-    const filePath = path.join(this.context.globalStorageUri.fsPath, "categories.json");
-    const categoriesData = { categories: this.categories };
-    fs.writeFileSync(filePath, JSON.stringify(categoriesData, null, 2));
+  private loadGroupByTag() {
+    const config = vscode.workspace.getConfiguration('messProjectManager');
+    this.groupByTag = config.get('groupByTag', false);
   }
 
   private loadShowInactiveProjects() {
@@ -511,24 +1007,38 @@ export class ProjectProvider implements vscode.TreeDataProvider<ProjectItem>, vs
   private buildTree(): ProjectItem[] {
     if (!this.showCategories) {
       // Show flat list without categories
-      return this.buildProjectTree(this.projects);
+      return this.buildProjectTree(this.getVisibleProjects());
+    }
+
+    if (this.groupByTag) {
+      return this.buildTagTree(this.getVisibleProjects());
     }
 
     // Group projects by favorite and category
     const favoriteProjects: ProjectEntry[] = [];
     const categoryGroups: { [categoryId: string]: ProjectEntry[] } = {};
     const uncategorizedProjects: ProjectEntry[] = [];
+    const missingProjects: ProjectEntry[] = [];
+    const health = ProjectHealth.getInstance();
+    const categories = this.store.getCategories();
+
+    for (const project of this.getVisibleProjects()) {
+      // Missing projects are only listed in their own group until relocated or removed
+      if (health.isMissing(project.path)) {
+        missingProjects.push(project);
+        continue;
+      }
 
-    for (const project of this.projects) {
       if (project.favorite) {
         favoriteProjects.push(project);
       }
       
-      if (project.category) {
-        if (!categoryGroups[project.category]) {
-          categoryGroups[project.category] = [];
+      const categoryId = getEffectiveCategory(categories, project.category);
+      if (categoryId) {
+        if (!categoryGroups[categoryId]) {
+          categoryGroups[categoryId] = [];
         }
-        categoryGroups[project.category].push(project);
+        categoryGroups[categoryId].push(project);
       // } else if (!project.favorite) {
       //   // Only add to uncategorized if it's not a favorite
       //   uncategorizedProjects.push(project);
@@ -541,43 +1051,21 @@ export class ProjectProvider implements vscode.TreeDataProvider<ProjectItem>, vs
 
     const result: ProjectItem[] = [];
 
+    if (missingProjects.length > 0) {
+      result.push(this.buildMissingItem(missingProjects));
+    }
+
     // Add favorite projects first (if any)
     if (favoriteProjects.length > 0) {
-      const favoriteChildren = this.buildProjectTree(favoriteProjects);
-      const favoriteItem = new ProjectItem(
-        "Favorite Projects",
-        vscode.TreeItemCollapsibleState.Expanded,
-        undefined,
-        favoriteChildren,
-        true,
-        "favorites",
-        true
-      );
-      favoriteItem.iconPath = new vscode.ThemeIcon("star");
-      result.push(favoriteItem);
+      result.push(this.buildFavoritesItem(favoriteProjects));
     }
 
-    // Add categorized projects (excluding favorites already shown)
-    for (const category of this.categories) {
-      if (category.id === "favorite_projects") continue; // Skip the old favorite category
-      
-      const projectsInCategory = categoryGroups[category.id] || [];
-      if (projectsInCategory.length > 0) {
-        const categoryChildren = this.buildProjectTree(projectsInCategory);
-        const categoryItem = new ProjectItem(
-          category.name,
-          vscode.TreeItemCollapsibleState.Expanded,
-          undefined,
-          categoryChildren,
-          true,
-          category.id,
-          true
-        );
-        
-        if (category.icon) {
-          categoryItem.iconPath = new vscode.ThemeIcon(category.icon);
-        }
-        
+    result.push(...this.buildSavedSearchItems());
+
+    // Add categorized projects (excluding favorites already shown), nested by parent
+    for (const category of getChildCategories(categories, undefined)) {
+      const categoryItem = this.buildCategoryItem(category, categories, categoryGroups);
+      if (categoryItem) {
         result.push(categoryItem);
       }
     }
@@ -601,10 +1089,182 @@ export class ProjectProvider implements vscode.TreeDataProvider<ProjectItem>, vs
     return result;
   }
 
+  // Category node with its subcategories first, then its own projects.
+  // Categories with nothing below them are left out, as before nesting existed.
+  private buildCategoryItem(
+    category: ProjectCategory,
+    categories: ProjectCategory[],
+    categoryGroups: { [categoryId: string]: ProjectEntry[] },
+    visited: Set<string> = new Set()
+  ): ProjectItem | undefined {
+    if (category.id === "favorite_projects") return undefined; // Skip the old favorite category
+    if (visited.has(category.id)) return undefined; // Guard against hand-edited parent cycles
+    visited.add(category.id);
+
+    const subcategoryItems = getChildCategories(categories, category.id)
+      .map(child => this.buildCategoryItem(child, categories, categoryGroups, visited))
+      .filter((item): item is ProjectItem => !!item);
+    const projectItems = this.buildProjectTree(categoryGroups[category.id] || []);
+
+    if (subcategoryItems.length === 0 && projectItems.length === 0) {
+      return undefined;
+    }
+
+    const categoryItem = new ProjectItem(
+      category.name,
+      vscode.TreeItemCollapsibleState.Expanded,
+      undefined,
+      [...subcategoryItems, ...projectItems],
+      true,
+      category.id,
+      true
+    );
+
+    const color = getCategoryColor(categories, category.id);
+    if (category.icon || color) {
+      categoryItem.iconPath = new vscode.ThemeIcon(category.icon || "folder", color ? new vscode.ThemeColor(color) : new vscode.ThemeColor("icon.foreground"));
+    }
+
+    return categoryItem;
+  }
+
+  // A broken projects.json or categories.json is shown on top instead of
+  // leaving the view silently empty
+  protected withConfigError(items: ProjectItem[]): ProjectItem[] {
+    const loadError = this.store.getLoadError();
+    if (!loadError) return items;
+
+    const errorItem = new ProjectItem("Configuration could not be loaded", vscode.TreeItemCollapsibleState.None);
+    errorItem.contextValue = "configErrorItem";
+    errorItem.iconPath = new vscode.ThemeIcon("error", new vscode.ThemeColor("list.errorForeground"));
+    errorItem.description = loadError;
+    errorItem.tooltip = `${loadError}\nChanges are not saved until the file is fixed. Click to open it.`;
+    errorItem.command = {
+      command: "messProjectManager.fixConfig",
+      title: "Fix Config"
+    };
+    return [errorItem, ...items];
+  }
+
+  private buildMissingItem(missingProjects: ProjectEntry[]): ProjectItem {
+    const missingItem = new ProjectItem(
+      "Missing",
+      vscode.TreeItemCollapsibleState.Expanded,
+      undefined,
+      this.buildProjectTree(missingProjects),
+      true,
+      "missing",
+      true
+    );
+    missingItem.contextValue = "missingGroupItem";
+    missingItem.iconPath = new vscode.ThemeIcon("warning", new vscode.ThemeColor("list.warningForeground"));
+    missingItem.description = `${missingProjects.length}`;
+    missingItem.tooltip = "Projects whose path no longer exists. Relocate them or remove them from the list.";
+    return missingItem;
+  }
+
+  private buildFavoritesItem(favoriteProjects: ProjectEntry[]): ProjectItem {
+    const favoriteChildren = this.buildProjectTree(favoriteProjects);
+    const favoriteItem = new ProjectItem(
+      "Favorite Projects",
+      vscode.TreeItemCollapsibleState.Expanded,
+      undefined,
+      favoriteChildren,
+      true,
+      "favorites",
+      true
+    );
+    favoriteItem.iconPath = new vscode.ThemeIcon("star");
+    return favoriteItem;
+  }
+
+  // Smart folders: each saved search re-runs its query on every refresh,
+  // narrowed further by the active search filter
+  private buildSavedSearchItems(): ProjectItem[] {
+    const queryContext = this.getQueryContext();
+    return this.store.getSavedSearches().map(search => {
+      const query = parseProjectQuery(search.query);
+      const projects = this.filterProjects(this.store.getProjects(), query)
+        .filter(project => matchesProjectQuery(this.searchQuery, project, queryContext));
+
+      const searchItem = new ProjectItem(
+        search.name,
+        projects.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None,
+        undefined,
+        this.buildProjectTree(projects),
+        true,
+        search.id,
+        true
+      );
+      searchItem.contextValue = "savedSearchItem";
+      searchItem.description = `${search.query} (${projects.length})`;
+      searchItem.tooltip = query.errors.length > 0
+        ? `${search.query}\n⚠️ ${query.errors.join("\n⚠️ ")}`
+        : search.query;
+      searchItem.iconPath = new vscode.ThemeIcon("search");
+      return searchItem;
+    });
+  }
+
+  // "Group by tag" mode: a project shows up under every tag it carries
+  private buildTagTree(projects: ProjectEntry[]): ProjectItem[] {
+    const result: ProjectItem[] = [];
+
+    const favoriteProjects = projects.filter(p => p.favorite);
+    if (favoriteProjects.length > 0) {
+      result.push(this.buildFavoritesItem(favoriteProjects));
+    }
+
+    result.push(...this.buildSavedSearchItems());
+
+    const tagGroups = new Map<string, ProjectEntry[]>();
+    const untaggedProjects: ProjectEntry[] = [];
+    for (const project of projects) {
+      if (!project.tags || project.tags.length === 0) {
+        untaggedProjects.push(project);
+        continue;
+      }
+      for (const tag of project.tags) {
+        tagGroups.set(tag, [...(tagGroups.get(tag) || []), project]);
+      }
+    }
+
+    [...tagGroups.keys()].sort((a, b) => a.localeCompare(b)).forEach(tag => {
+      const tagItem = new ProjectItem(
+        tag,
+        vscode.TreeItemCollapsibleState.Expanded,
+        undefined,
+        this.buildProjectTree(tagGroups.get(tag)!),
+        true,
+        tag,
+        true
+      );
+      tagItem.contextValue = "tagItem";
+      tagItem.iconPath = new vscode.ThemeIcon("tag");
+      result.push(tagItem);
+    });
+
+    if (untaggedProjects.length > 0) {
+      const untaggedItem = new ProjectItem(
+        "Untagged",
+        vscode.TreeItemCollapsibleState.Expanded,
+        undefined,
+        this.buildProjectTree(untaggedProjects),
+        true,
+        undefined,
+        true
+      );
+      untaggedItem.iconPath = new vscode.ThemeIcon("question");
+      result.push(untaggedItem);
+    }
+
+    return result;
+  }
+
   private buildProjectTree(projects: ProjectEntry[]): ProjectItem[] {
     const root: any = {};
 
-    for (const project of projects) {
+    for (const project of sortProjects(projects, this.getSortMode(), this.getSortContext())) {
       const parts = project.label.split(/[\\/]/); // phân tách theo "/" hoặc "\"
       let current = root;
       for (let i = 0; i < parts.length; i++) {
@@ -616,12 +1276,14 @@ export class ProjectProvider implements vscode.TreeDataProvider<ProjectItem>, vs
             __fullPath: i === parts.length - 1 ? project.path : undefined, 
             __active: project.active,
             __category: project.category,
-            __favorite: project.favorite || false
+            __favorite: project.favorite || false,
+            __tags: project.tags || []
           };
         } else {
           current[part].__active = project.active;
           current[part].__category = project.category;
           current[part].__favorite = project.favorite || false;
+          current[part].__tags = project.tags || [];
           // nếu trùng label nhưng đây là leaf -> gán fullPath
           if (i === parts.length - 1) {
             current[part].__fullPath = project.path;
@@ -634,6 +1296,19 @@ export class ProjectProvider implements vscode.TreeDataProvider<ProjectItem>, vs
     return this.convertToTreeItems(root);
   }
 
+  // Opening a missing project would just fail, clicking it offers to relocate it instead
+  private markMissing(projectItem: ProjectItem): void {
+    projectItem.contextValue = "missingProjectItem";
+    projectItem.setCustomIcon(new vscode.ThemeIcon("warning", new vscode.ThemeColor("list.warningForeground")));
+    projectItem.description += " (missing)";
+    projectItem.tooltip = `${projectItem.fullPath}\nThis path no longer exists`;
+    projectItem.command = {
+      command: "messProjectManager.relocateProject",
+      title: "Relocate Project",
+      arguments: [projectItem],
+    };
+  }
+
   private convertToTreeItems(node: any): ProjectItem[] {
     // console.log(node);
     return Object.entries(node).map(([name, value]: [string, any]) => {
@@ -641,6 +1316,7 @@ export class ProjectProvider implements vscode.TreeDataProvider<ProjectItem>, vs
       const isActive = value.__active !== undefined ? value.__active : true;
       const category = value.__category;
       const favorite = value.__favorite || false;
+      const tags = value.__tags || [];
       
       // Detect project type for leaf nodes (actual projects)
       let projectType = "folder";
@@ -650,16 +1326,24 @@ export class ProjectProvider implements vscode.TreeDataProvider<ProjectItem>, vs
       
       // console.log(`Converting to TreeItem: ${name}, active: ${isActive}, fullPath: ${value.__fullPath}, type: ${projectType}`);
       
+      const missing = !!value.__fullPath && children.length === 0 && ProjectHealth.getInstance().isMissing(value.__fullPath);
+
+      // Workspace files expand into their member folders, monorepos into their packages
+      const expandable = children.length > 0
+        || (value.__fullPath && !missing && (isWorkspaceFile(value.__fullPath) || this.hasPackages(value.__fullPath)));
+
       const projectItem = new ProjectItem(
         name,
-        children.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None,
+        expandable ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None,
         value.__fullPath,
         children,
         isActive,
         category,
         false,
         favorite,
-        projectType
+        projectType,
+        value.__fullPath ? tags : [],
+        category ? getCategoryPath(this.store.getCategories(), category) : undefined
       );
 
       // Set custom icon based on project type
@@ -667,6 +1351,19 @@ export class ProjectProvider implements vscode.TreeDataProvider<ProjectItem>, vs
         const customIcon = this.getProjectIcon(projectType, favorite);
         projectItem.setCustomIcon(customIcon);
       }
+
+      // Details set in the project details panel
+      const entry = value.__fullPath && children.length === 0 ? this.store.getProject(value.__fullPath) : undefined;
+      if (entry?.icon) {
+        projectItem.setCustomIcon(new vscode.ThemeIcon(entry.icon, new vscode.ThemeColor("icon.foreground")));
+      }
+      if (entry?.description) {
+        projectItem.tooltip = `${projectItem.tooltip}\n\n${entry.description}`;
+      }
+
+      if (missing) {
+        this.markMissing(projectItem);
+      }
       
       return projectItem;
     });
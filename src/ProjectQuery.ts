@@ -0,0 +1,181 @@
+import { GitInfo } from "./GitStatus";
+import { ProjectEntry } from "./types";
+
+// Filter fields understood by the search box, with their aliases. Maps rather
+// than object literals, so words like "constructor" never hit prototype keys.
+const FIELD_ALIASES = new Map<string, QueryField>([
+  ["type", "type"],
+  ["cat", "cat"],
+  ["category", "cat"],
+  ["tag", "tag"],
+  ["fav", "fav"],
+  ["favorite", "fav"],
+  ["git", "git"],
+  ["active", "active"]
+]);
+
+const BOOLEAN_VALUES = new Map<string, boolean>([["true", true], ["yes", true], ["false", false], ["no", false]]);
+const GIT_STATES = ["dirty", "clean", "ahead", "behind", "repo", "none"];
+
+export type QueryField = "type" | "cat" | "tag" | "fav" | "git" | "active";
+
+interface QueryTerm {
+  negated: boolean;
+  // Free text when there is no field
+  field?: QueryField;
+  // Lowercased
+  value: string;
+}
+
+export interface ProjectQuery {
+  text: string;
+  terms: QueryTerm[];
+  // One message per invalid token; invalid tokens are left out of terms
+  errors: string[];
+}
+
+/**
+ * Project facts the query needs beyond the entry itself. They are only
+ * asked for when a term uses them, so expensive lookups stay lazy.
+ */
+export interface ProjectQueryContext {
+  getProjectType(project: ProjectEntry): string;
+  getCategoryPath(project: ProjectEntry): string | undefined;
+  // null = not a Git repository, undefined = status not known yet
+  getGitInfo(project: ProjectEntry): GitInfo | null | undefined;
+}
+
+export const PROJECT_QUERY_HELP = 'type:react cat:work tag:api fav:true active:false git:dirty -archived "exact phrase"';
+
+/**
+ * Parses a search such as `type:react cat:work -archived "exact phrase"`.
+ * Terms are ANDed, a leading "-" negates a term and bare words or quoted
+ * phrases match the label, path or tags. Words with an unknown prefix such
+ * as "https:" are searched for as they are.
+ */
+export function parseProjectQuery(text: string): ProjectQuery {
+  const terms: QueryTerm[] = [];
+  const errors: string[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    if (/\s/.test(text[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const negated = text[i] === "-";
+    if (negated) i++;
+
+    // Only known filters count; anything else with a colon (https://..., C:\...) is plain text
+    let fieldName: string | undefined;
+    const fieldMatch = /^([A-Za-z]+):/.exec(text.slice(i));
+    if (fieldMatch && FIELD_ALIASES.has(fieldMatch[1].toLowerCase())) {
+      fieldName = fieldMatch[1].toLowerCase();
+      i += fieldMatch[0].length;
+    }
+
+    let value: string;
+    if (text[i] === "\"") {
+      const end = text.indexOf("\"", i + 1);
+      if (end === -1) {
+        errors.push(`Missing closing quote in ${text.slice(start)}`);
+        break;
+      }
+      value = text.slice(i + 1, end);
+      i = end + 1;
+    } else {
+      const end = text.slice(i).search(/\s/);
+      value = end === -1 ? text.slice(i) : text.slice(i, i + end);
+      i += value.length;
+    }
+
+    const token = text.slice(start, i);
+    const error = fieldName !== undefined
+      ? validateField(fieldName, value)
+      : (value || !negated ? undefined : `"${token}" must be followed by a term to exclude`);
+    if (error) {
+      errors.push(error);
+      continue;
+    }
+    // Empty phrase ("")
+    if (!value) continue;
+
+    terms.push({
+      negated,
+      field: fieldName !== undefined ? FIELD_ALIASES.get(fieldName) : undefined,
+      value: value.toLowerCase()
+    });
+  }
+
+  return { text, terms, errors };
+}
+
+function validateField(fieldName: string, value: string): string | undefined {
+  const field = FIELD_ALIASES.get(fieldName)!;
+  if (!value) {
+    return `"${fieldName}:" needs a value, e.g. ${field}:${field === "git" ? "dirty" : field === "fav" || field === "active" ? "true" : "name"}`;
+  }
+  const lowerValue = value.toLowerCase();
+  if ((field === "fav" || field === "active") && !BOOLEAN_VALUES.has(lowerValue)) {
+    return `"${fieldName}:" expects true or false, got "${value}"`;
+  }
+  if (field === "git" && !GIT_STATES.includes(lowerValue)) {
+    return `"git:" expects one of ${GIT_STATES.join(", ")}, got "${value}"`;
+  }
+  return undefined;
+}
+
+/**
+ * Whether every term of the query matches. Projects whose Git status is
+ * still unknown never match a git: term, negated or not.
+ */
+export function matchesProjectQuery(query: ProjectQuery, project: ProjectEntry, context: ProjectQueryContext): boolean {
+  return query.terms.every(term => {
+    const result = matchTerm(term, project, context);
+    if (result === undefined) return false;
+    return term.negated ? !result : result;
+  });
+}
+
+export function queryUsesField(query: ProjectQuery, field: QueryField): boolean {
+  return query.terms.some(term => term.field === field);
+}
+
+function matchTerm(term: QueryTerm, project: ProjectEntry, context: ProjectQueryContext): boolean | undefined {
+  const tags = (project.tags || []).map(tag => tag.toLowerCase());
+
+  switch (term.field) {
+    case "type":
+      return context.getProjectType(project).toLowerCase() === term.value;
+    case "cat": {
+      if (!project.category) return false;
+      const categoryPath = context.getCategoryPath(project) || project.category;
+      return project.category.toLowerCase() === term.value || categoryPath.toLowerCase().includes(term.value);
+    }
+    case "tag":
+      return tags.includes(term.value);
+    case "fav":
+      return (project.favorite === true) === BOOLEAN_VALUES.get(term.value);
+    case "active":
+      return project.active === BOOLEAN_VALUES.get(term.value);
+    case "git": {
+      const gitInfo = context.getGitInfo(project);
+      if (gitInfo === undefined) return undefined;
+      switch (term.value) {
+        case "repo": return gitInfo !== null;
+        case "none": return gitInfo === null;
+        case "dirty": return !!gitInfo?.hasChanges;
+        case "clean": return !!gitInfo && !gitInfo.hasChanges;
+        case "ahead": return !!gitInfo && gitInfo.ahead > 0;
+        case "behind": return !!gitInfo && gitInfo.behind > 0;
+      }
+      return false;
+    }
+    default:
+      return project.label.toLowerCase().includes(term.value)
+        || project.path.toLowerCase().includes(term.value)
+        || tags.some(tag => tag.includes(term.value));
+  }
+}
@@ -0,0 +1,171 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import * as fs from "fs";
+import { ProjectEntry } from "./types";
+import { isRemotePath } from "./RemoteProject";
+import { isWorkspaceFile } from "./WorkspaceProject";
+import { readLastCommitTime } from "./GitStatus";
+
+export type ProjectSortMode = "manual" | "name" | "lastOpened" | "mostOpened" | "type" | "lastModified" | "lastCommit";
+
+export const PROJECT_SORT_MODES: { mode: ProjectSortMode; label: string; description: string }[] = [
+  { mode: "manual", label: "Manual", description: "The order in projects.json - drag to rearrange" },
+  { mode: "name", label: "Name", description: "Alphabetical by label" },
+  { mode: "lastOpened", label: "Last Opened", description: "Most recently opened first" },
+  { mode: "mostOpened", label: "Most Opened", description: "Opened most often first" },
+  { mode: "type", label: "Project Type", description: "Grouped by detected type, then by name" },
+  { mode: "lastModified", label: "Last Modified", description: "Most recently changed on disk first" },
+  { mode: "lastCommit", label: "Last Commit", description: "Most recent Git commit first" }
+];
+
+export function isProjectSortMode(value: unknown): value is ProjectSortMode {
+  return PROJECT_SORT_MODES.some(entry => entry.mode === value);
+}
+
+export function getSortModeLabel(mode: ProjectSortMode): string {
+  return PROJECT_SORT_MODES.find(entry => entry.mode === mode)?.label || mode;
+}
+
+// What the sort keys are read from; views pass in their own usage and type lookups
+export interface ProjectSortContext {
+  getOpenCount(projectPath: string): number;
+  getLastOpened(projectPath: string): number;
+  getProjectType(projectPath: string): string;
+}
+
+// Newest mtime of the project folder and the entries directly inside it
+async function readLastModified(projectPath: string): Promise<number> {
+  if (isRemotePath(projectPath)) return 0;
+  try {
+    const stats = await fs.promises.stat(projectPath);
+    if (isWorkspaceFile(projectPath) || !stats.isDirectory()) {
+      return stats.mtimeMs;
+    }
+    let newest = stats.mtimeMs;
+    for (const entry of await fs.promises.readdir(projectPath)) {
+      if (entry === ".git") continue;
+      try {
+        newest = Math.max(newest, (await fs.promises.stat(path.join(projectPath, entry))).mtimeMs);
+      } catch (error) {
+        // Broken symlink or removed meanwhile
+      }
+    }
+    return newest;
+  } catch (error) {
+    return 0;
+  }
+}
+
+type TimestampKind = "lastModified" | "lastCommit";
+
+// Timestamps are re-read once they are older than this, so refreshes stay cheap
+const TIMESTAMP_TTL = 60 * 1000;
+
+/**
+ * Disk and Git timestamps behind the lastModified and lastCommit sort
+ * modes. Like GitStatusCache, reads never block: sorting uses what is
+ * cached (0 until known) and queues what is missing or stale, and
+ * onDidChange fires once new values are in so views can sort again.
+ */
+export class ProjectTimestampCache {
+  private static instance: ProjectTimestampCache;
+  private timestamps: Map<string, { value: number; readAt: number }> = new Map();
+  private queued: Map<string, { kind: TimestampKind; projectPath: string }> = new Map();
+  private changeTimer: NodeJS.Timeout | undefined;
+  private _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+  public static getInstance(): ProjectTimestampCache {
+    if (!ProjectTimestampCache.instance) {
+      ProjectTimestampCache.instance = new ProjectTimestampCache();
+    }
+    return ProjectTimestampCache.instance;
+  }
+
+  get(kind: TimestampKind, projectPath: string): number {
+    const key = `${kind}:${projectPath}`;
+    const cached = this.timestamps.get(key);
+    if (!cached || Date.now() - cached.readAt >= TIMESTAMP_TTL) {
+      this.enqueue(key, kind, projectPath);
+    }
+    return cached?.value || 0;
+  }
+
+  private enqueue(key: string, kind: TimestampKind, projectPath: string): void {
+    if (this.queued.has(key)) return;
+    this.queued.set(key, { kind, projectPath });
+    // Batch everything requested during one sort into a single drain
+    if (this.queued.size === 1) {
+      setTimeout(() => this.drainQueue(), 0);
+    }
+  }
+
+  private async drainQueue(): Promise<void> {
+    while (this.queued.size > 0) {
+      const [[key, { kind, projectPath }]] = this.queued;
+      const value = kind === "lastModified"
+        ? await readLastModified(projectPath)
+        : await readLastCommitTime(projectPath) || 0;
+      this.queued.delete(key);
+      const changed = (this.timestamps.get(key)?.value || 0) !== value;
+      this.timestamps.set(key, { value, readAt: Date.now() });
+      if (changed) {
+        this.scheduleChange();
+      }
+    }
+  }
+
+  // Views sort again once the values settle
+  private scheduleChange(): void {
+    if (this.changeTimer) {
+      clearTimeout(this.changeTimer);
+    }
+    this.changeTimer = setTimeout(() => {
+      this.changeTimer = undefined;
+      this._onDidChange.fire();
+    }, 300);
+  }
+}
+
+function compareNames(a: ProjectEntry, b: ProjectEntry): number {
+  return a.label.localeCompare(b.label, undefined, { numeric: true, sensitivity: "base" });
+}
+
+/**
+ * Returns the projects in the given order. Ties fall back to the name, and
+ * "manual" keeps the order they are stored in. Timestamps not read yet
+ * count as 0 until ProjectTimestampCache has them.
+ */
+export function sortProjects(projects: ProjectEntry[], mode: ProjectSortMode, context: ProjectSortContext): ProjectEntry[] {
+  if (mode === "manual") return projects;
+
+  // Newest / largest first
+  const byNumber = (key: (project: ProjectEntry) => number) => {
+    const keys = new Map(projects.map(project => [project, key(project)]));
+    return (a: ProjectEntry, b: ProjectEntry) => keys.get(b)! - keys.get(a)! || compareNames(a, b);
+  };
+
+  let compare: (a: ProjectEntry, b: ProjectEntry) => number;
+  switch (mode) {
+    case "lastOpened":
+      compare = byNumber(project => context.getLastOpened(project.path));
+      break;
+    case "mostOpened":
+      compare = byNumber(project => context.getOpenCount(project.path));
+      break;
+    case "lastModified":
+      compare = byNumber(project => ProjectTimestampCache.getInstance().get("lastModified", project.path));
+      break;
+    case "lastCommit":
+      compare = byNumber(project => ProjectTimestampCache.getInstance().get("lastCommit", project.path));
+      break;
+    case "type": {
+      const types = new Map(projects.map(project => [project, context.getProjectType(project.path)]));
+      compare = (a, b) => types.get(a)!.localeCompare(types.get(b)!) || compareNames(a, b);
+      break;
+    }
+    default:
+      compare = compareNames;
+  }
+  return [...projects].sort(compare);
+}
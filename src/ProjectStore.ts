@@ -0,0 +1,320 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import * as fs from "fs";
+import { ProjectCategory, ProjectEntry, SavedSearch } from "./types";
+import { buildRemoteUri, isRemotePath } from "./RemoteProject";
+
+export const PROJECTS_SCHEMA_VERSION = 1;
+export const CATEGORIES_SCHEMA_VERSION = 2;
+
+export interface ProjectStoreState {
+  projects: ProjectEntry[];
+  categories: ProjectCategory[];
+  // Stored in categories.json next to the categories they sit beside
+  savedSearches: SavedSearch[];
+}
+
+// Same path regardless of trailing separators, and of case on Windows
+export function pathKey(projectPath: string): string {
+  if (isRemotePath(projectPath)) return projectPath;
+  const normalized = path.normalize(projectPath).replace(/[\\/]+$/, "");
+  return process.platform === "win32" ? normalized.toLowerCase() : normalized;
+}
+
+// A successful update(), with the state before and after it
+export interface ProjectStoreUpdate {
+  label: string;
+  before: ProjectStoreState;
+  after: ProjectStoreState;
+}
+
+type Migration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// The object items of a list read from disk; anything else is dropped
+function records(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value) ? value.filter(isRecord) : [];
+}
+
+// Local path, or the path inside a remote descriptor
+function storedPath(project: Record<string, unknown>): string {
+  if (typeof project.path === "string" && project.path) return project.path;
+  return isRecord(project.remote) && typeof project.remote.path === "string" ? project.remote.path : "";
+}
+
+// Migration at index N upgrades a file from version N to N + 1.
+// Files written before versioning existed have no "version" field and count as version 0.
+const projectMigrations: Migration[] = [
+  (data) => ({
+    projects: records(data.projects)
+      .filter(project => typeof project.path === "string" || isRecord(project.remote))
+      .map(project => ({
+        ...project,
+        label: typeof project.label === "string" && project.label ? project.label : path.basename(storedPath(project)),
+        active: project.active === true
+      }))
+  })
+];
+
+const categoryMigrations: Migration[] = [
+  (data) => ({
+    categories: records(data.categories).filter(category => typeof category.id === "string")
+  }),
+  (data) => ({
+    ...data,
+    savedSearches: []
+  })
+];
+
+// Remote entries may be written with only a descriptor; derive their URI path
+function resolveRemotePaths(projects: ProjectEntry[]): ProjectEntry[] {
+  return projects.map(project =>
+    !project.path && project.remote
+      ? { ...project, path: buildRemoteUri(project.remote).toString() }
+      : project
+  );
+}
+
+function migrate(parsed: unknown, migrations: Migration[], targetVersion: number): { data: Record<string, unknown>; migrated: boolean } {
+  if (!isRecord(parsed)) {
+    throw new Error("Expected a JSON object");
+  }
+  let data = parsed;
+  let version = typeof data.version === "number" ? data.version : 0;
+  if (version > targetVersion) {
+    throw new Error(`File was written by a newer version of the extension (schema v${version})`);
+  }
+
+  const migrated = version < targetVersion;
+  while (version < targetVersion) {
+    data = migrations[version](data);
+    version++;
+  }
+  const { version: _previous, ...rest } = data;
+  return { data: { version, ...rest }, migrated };
+}
+
+/**
+ * Single owner of projects.json and categories.json.
+ * Always holds the full, unfiltered lists - filtering is left to the views.
+ */
+export class ProjectStore implements vscode.Disposable {
+  private _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+  // Only fired for update(); reloads from disk are not edits made here
+  private _onDidUpdate = new vscode.EventEmitter<ProjectStoreUpdate>();
+  readonly onDidUpdate: vscode.Event<ProjectStoreUpdate> = this._onDidUpdate.event;
+
+  readonly projectsFile: string;
+  readonly categoriesFile: string;
+
+  private state: ProjectStoreState = { projects: [], categories: [], savedSearches: [] };
+  private lastProjectsContent: string | undefined;
+  private lastCategoriesContent: string | undefined;
+  private projectsLoadError: string | undefined;
+  private categoriesLoadError: string | undefined;
+
+  constructor(storagePath: string) {
+    if (!fs.existsSync(storagePath)) {
+      fs.mkdirSync(storagePath, { recursive: true });
+    }
+    this.projectsFile = path.join(storagePath, "projects.json");
+    this.categoriesFile = path.join(storagePath, "categories.json");
+    this.load();
+  }
+
+  getProjects(): ProjectEntry[] {
+    return this.state.projects.slice();
+  }
+
+  getCategories(): ProjectCategory[] {
+    return this.state.categories.slice();
+  }
+
+  getSavedSearches(): SavedSearch[] {
+    return this.state.savedSearches.slice();
+  }
+
+  getProject(projectPath: string): ProjectEntry | undefined {
+    return this.state.projects.find(p => p.path === projectPath);
+  }
+
+  // Lookup that tolerates trailing separators and, on Windows, case differences
+  findProjectByPath(projectPath: string): ProjectEntry | undefined {
+    const key = pathKey(projectPath);
+    return this.state.projects.find(p => pathKey(p.path) === key);
+  }
+
+  getLoadError(): string | undefined {
+    return this.projectsLoadError || this.categoriesLoadError;
+  }
+
+  // The file getLoadError() is about
+  getLoadErrorFile(): string | undefined {
+    if (this.projectsLoadError) return this.projectsFile;
+    return this.categoriesLoadError ? this.categoriesFile : undefined;
+  }
+
+  /**
+   * Adds a project unless one with the same path is already stored.
+   * Returns false for duplicates.
+   */
+  addProject(project: ProjectEntry): boolean {
+    if (this.findProjectByPath(project.path)) {
+      return false;
+    }
+    return this.update(state => {
+      state.projects.push(project);
+    });
+  }
+
+  /**
+   * Applies a mutation to a copy of the full state, persists whichever files
+   * changed and notifies subscribers. Returns false if nothing was written.
+   * The label names the change in the undo history.
+   */
+  update(mutator: (state: ProjectStoreState) => void, label: string = "Edit projects"): boolean {
+    const error = this.getLoadError();
+    if (error) {
+      vscode.window.showErrorMessage(`❌ Project configuration could not be loaded, changes were not saved: ${error}`);
+      return false;
+    }
+
+    const draft: ProjectStoreState = JSON.parse(JSON.stringify(this.state));
+    mutator(draft);
+
+    const projectsContent = this.serializeProjects(draft);
+    const categoriesContent = this.serializeCategories(draft);
+    const projectsChanged = projectsContent !== this.serializeProjects(this.state);
+    const categoriesChanged = categoriesContent !== this.serializeCategories(this.state);
+    if (!projectsChanged && !categoriesChanged) {
+      return false;
+    }
+
+    try {
+      if (projectsChanged) {
+        this.writeAtomic(this.projectsFile, projectsContent);
+        this.lastProjectsContent = projectsContent;
+      }
+      if (categoriesChanged) {
+        this.writeAtomic(this.categoriesFile, categoriesContent);
+        this.lastCategoriesContent = categoriesContent;
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(`❌ Failed to save project configuration: ${error instanceof Error ? error.message : error}`);
+      return false;
+    }
+
+    const before = this.state;
+    this.state = draft;
+    this._onDidUpdate.fire({ label, before, after: draft });
+    this._onDidChange.fire();
+    return true;
+  }
+
+  /**
+   * Re-reads both files from disk. Fires a change event only when the content
+   * differs from what the store last read or wrote, so our own writes coming
+   * back through the file watcher are ignored.
+   */
+  reload(): void {
+    if (this.load()) {
+      this._onDidChange.fire();
+    }
+  }
+
+  dispose(): void {
+    this._onDidChange.dispose();
+    this._onDidUpdate.dispose();
+  }
+
+  private load(): boolean {
+    const projectsChanged = this.loadProjects();
+    const categoriesChanged = this.loadCategories();
+    return projectsChanged || categoriesChanged;
+  }
+
+  private loadProjects(): boolean {
+    if (!fs.existsSync(this.projectsFile)) {
+      this.state.projects = [];
+      this.projectsLoadError = undefined;
+      this.lastProjectsContent = this.writeAtomic(this.projectsFile, this.serializeProjects({ projects: [] }));
+      return true;
+    }
+
+    const raw = fs.readFileSync(this.projectsFile, "utf-8");
+    if (raw === this.lastProjectsContent && !this.projectsLoadError) {
+      return false;
+    }
+
+    try {
+      const { data, migrated } = migrate(JSON.parse(raw), projectMigrations, PROJECTS_SCHEMA_VERSION);
+      this.state.projects = resolveRemotePaths(records(data.projects) as unknown as ProjectEntry[]);
+      this.projectsLoadError = undefined;
+      this.lastProjectsContent = migrated
+        ? this.writeAtomic(this.projectsFile, this.serialize(data))
+        : raw;
+    } catch (error) {
+      this.state.projects = [];
+      this.projectsLoadError = `projects.json: ${error instanceof Error ? error.message : error}`;
+      this.lastProjectsContent = raw;
+    }
+    return true;
+  }
+
+  private loadCategories(): boolean {
+    if (!fs.existsSync(this.categoriesFile)) {
+      this.state.categories = [];
+      this.state.savedSearches = [];
+      this.categoriesLoadError = undefined;
+      this.lastCategoriesContent = this.writeAtomic(this.categoriesFile, this.serializeCategories({ categories: [], savedSearches: [] }));
+      return true;
+    }
+
+    const raw = fs.readFileSync(this.categoriesFile, "utf-8");
+    if (raw === this.lastCategoriesContent && !this.categoriesLoadError) {
+      return false;
+    }
+
+    try {
+      const { data, migrated } = migrate(JSON.parse(raw), categoryMigrations, CATEGORIES_SCHEMA_VERSION);
+      this.state.categories = records(data.categories) as unknown as ProjectCategory[];
+      this.state.savedSearches = records(data.savedSearches)
+        .filter(search => typeof search.id === "string" && typeof search.query === "string") as unknown as SavedSearch[];
+      this.categoriesLoadError = undefined;
+      this.lastCategoriesContent = migrated
+        ? this.writeAtomic(this.categoriesFile, this.serialize(data))
+        : raw;
+    } catch (error) {
+      this.state.categories = [];
+      this.state.savedSearches = [];
+      this.categoriesLoadError = `categories.json: ${error instanceof Error ? error.message : error}`;
+      this.lastCategoriesContent = raw;
+    }
+    return true;
+  }
+
+  private serialize(data: unknown): string {
+    return JSON.stringify(data, null, 2);
+  }
+
+  private serializeProjects(state: Pick<ProjectStoreState, "projects">): string {
+    return this.serialize({ version: PROJECTS_SCHEMA_VERSION, projects: state.projects });
+  }
+
+  private serializeCategories(state: Pick<ProjectStoreState, "categories" | "savedSearches">): string {
+    return this.serialize({ version: CATEGORIES_SCHEMA_VERSION, categories: state.categories, savedSearches: state.savedSearches });
+  }
+
+  // Write to a temp file next to the target, then rename over it so readers
+  // never observe a half-written file
+  private writeAtomic(filePath: string, content: string): string {
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, content);
+    fs.renameSync(tempPath, filePath);
+    return content;
+  }
+}
@@ -0,0 +1,111 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { ProjectStore } from "./ProjectStore";
+import { ProjectProvider } from "./ProjectProvider";
+import { ProjectUsageTracker } from "./ProjectUsage";
+import { PENDING_PROJECT_TYPE } from "./ProjectTypeCache";
+import { TerminalProvider } from "./TerminalProvider";
+import { readGitBranch } from "./GitStatus";
+import { getCategoryPath } from "./CategoryTree";
+import { isRemotePath } from "./RemoteProject";
+import { isWorkspaceFile } from "./WorkspaceProject";
+import { ProjectEntry } from "./types";
+
+interface ProjectPickItem extends vscode.QuickPickItem {
+  project: ProjectEntry;
+}
+
+const openInNewWindowButton: vscode.QuickInputButton = {
+  iconPath: new vscode.ThemeIcon("empty-window"),
+  tooltip: "Open in New Window"
+};
+
+const openTerminalButton: vscode.QuickInputButton = {
+  iconPath: new vscode.ThemeIcon("terminal"),
+  tooltip: "Open Integrated Terminal"
+};
+
+const revealButton: vscode.QuickInputButton = {
+  iconPath: new vscode.ThemeIcon("folder-opened"),
+  tooltip: "Open in File Explorer"
+};
+
+/**
+ * "Switch Project" quick pick listing every project, most frecent first
+ */
+export class ProjectSwitcher {
+  constructor(
+    private store: ProjectStore,
+    private usage: ProjectUsageTracker,
+    private iconProvider: ProjectProvider,
+    private openProject: (projectPath: string, newWindow: boolean) => Promise<void>
+  ) {}
+
+  async show(): Promise<void> {
+    const quickPick = vscode.window.createQuickPick<ProjectPickItem>();
+    quickPick.placeholder = "Switch to project (ranked by how often and how recently you opened it)";
+    quickPick.matchOnDescription = true;
+    quickPick.matchOnDetail = true;
+    quickPick.items = this.buildItems();
+
+    quickPick.onDidAccept(async () => {
+      const selected = quickPick.selectedItems[0];
+      quickPick.hide();
+      if (selected) {
+        await this.openProject(selected.project.path, false);
+      }
+    });
+
+    quickPick.onDidTriggerItemButton(async ({ button, item }) => {
+      quickPick.hide();
+      const projectPath = item.project.path;
+      if (button === openInNewWindowButton) {
+        await this.openProject(projectPath, true);
+      } else if (button === openTerminalButton) {
+        await TerminalProvider.getInstance().openIntegratedTerminal(this.getWorkingDirectory(projectPath), item.project.label);
+      } else if (button === revealButton) {
+        await vscode.env.openExternal(vscode.Uri.file(this.getWorkingDirectory(projectPath)));
+      }
+    });
+
+    quickPick.onDidHide(() => quickPick.dispose());
+    quickPick.show();
+  }
+
+  private buildItems(): ProjectPickItem[] {
+    const now = Date.now();
+    const categories = this.store.getCategories();
+    const ranked = this.store.getProjects()
+      .map((project, index) => ({ project, index, score: this.usage.getFrecency(project.path, now) }))
+      // Highest frecency first, never-opened projects keep their manual order
+      .sort((a, b) => b.score - a.score || a.index - b.index);
+
+    return ranked.map(({ project }) => {
+      const isRemote = isRemotePath(project.path);
+      const projectType = this.iconProvider.detectProjectType(project.path);
+      const branch = readGitBranch(project.path);
+      const categoryPath = project.category ? getCategoryPath(categories, project.category) : undefined;
+
+      const descriptionParts = [
+        projectType === PENDING_PROJECT_TYPE ? undefined : projectType,
+        categoryPath ? `[${categoryPath}]` : undefined,
+        branch ? `$(git-branch) ${branch}` : undefined,
+        project.active ? undefined : "(inactive)"
+      ].filter(part => !!part);
+
+      return {
+        label: project.label,
+        description: descriptionParts.join(" "),
+        detail: project.path,
+        iconPath: this.iconProvider.getProjectIcon(projectType, project.favorite || false),
+        // Terminal and file explorer only make sense for local projects
+        buttons: isRemote ? [openInNewWindowButton] : [openInNewWindowButton, openTerminalButton, revealButton],
+        project
+      };
+    });
+  }
+
+  private getWorkingDirectory(projectPath: string): string {
+    return isWorkspaceFile(projectPath) ? path.dirname(projectPath) : projectPath;
+  }
+}
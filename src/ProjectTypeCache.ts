@@ -0,0 +1,290 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import * as fs from "fs";
+import { detectFolderTypeAsync, pickWorkspaceType } from "./ProjectTypeDetector";
+import { isWorkspaceFile, readWorkspaceFoldersAsync } from "./WorkspaceProject";
+import { isRemotePath } from "./RemoteProject";
+import { detectMonorepoPackages, MonorepoPackage, MONOREPO_MANIFEST_FILES } from "./MonorepoPackages";
+import { detectTechnologyProfile, TechnologyProfile } from "./TechnologyProfile";
+
+interface CachedType {
+  type: string;
+  // mtimes of the folder and its manifests, or of a workspace file and its members
+  signature: string;
+  // Member folders of a workspace file - a change in any of them invalidates it too
+  members?: string[];
+  // Packages of a monorepo root
+  packages?: MonorepoPackage[];
+}
+
+// Shown until the first detection of a project completes
+export const PENDING_PROJECT_TYPE = "pending";
+
+const CACHE_KEY = "messProjectManager.projectTypeCache";
+// Tree refreshes are coalesced while a batch of detections comes in
+const CHANGE_DELAY = 200;
+
+function samePackages(a: MonorepoPackage[] = [], b: MonorepoPackage[] = []): boolean {
+  return a.length === b.length && a.every((pkg, i) => pkg.path === b[i].path && pkg.name === b[i].name);
+}
+
+/**
+ * Project types, detected off the render path. Lookups never block: unknown
+ * or stale projects are queued, and onDidChange fires as results come in.
+ * Entries survive reloads and are re-checked against marker mtimes. Once a
+ * project is drawn in a view, a file system watcher on its root invalidates
+ * it when files change; projects never shown are not watched.
+ */
+export class ProjectTypeCache implements vscode.Disposable {
+  private static instance: ProjectTypeCache;
+  private entries: Map<string, CachedType> = new Map();
+  // Entries confirmed against the file system since activation
+  private validated: Set<string> = new Set();
+  private queued: Set<string> = new Set();
+  // Technology profiles scan subfolders, so they are only worked out on request and kept for the session
+  private profiles: Map<string, Promise<TechnologyProfile>> = new Map();
+  private watchers: Map<string, vscode.FileSystemWatcher> = new Map();
+  private memento: vscode.Memento | undefined;
+  private changeTimer: NodeJS.Timeout | undefined;
+  private _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+  public static getInstance(): ProjectTypeCache {
+    if (!ProjectTypeCache.instance) {
+      ProjectTypeCache.instance = new ProjectTypeCache();
+    }
+    return ProjectTypeCache.instance;
+  }
+
+  /**
+   * Loads the types detected in earlier sessions, so icons show up right away
+   */
+  restore(memento: vscode.Memento): void {
+    this.memento = memento;
+    const saved = memento.get<{ [projectPath: string]: CachedType }>(CACHE_KEY, {});
+    Object.entries(saved).forEach(([projectPath, entry]) => this.entries.set(projectPath, entry));
+  }
+
+  /**
+   * Last known type, or undefined if the project was never detected.
+   * Either way a (re)detection is queued unless the entry is known to be current.
+   */
+  get(projectPath: string): string | undefined {
+    if (!this.validated.has(projectPath)) {
+      this.enqueue(projectPath);
+    }
+    return this.entries.get(projectPath)?.type;
+  }
+
+  /**
+   * Member packages if the project is a monorepo root. Like get(), never
+   * blocks; onDidChange fires once they are known.
+   */
+  getPackages(projectPath: string): MonorepoPackage[] {
+    if (!this.validated.has(projectPath)) {
+      this.enqueue(projectPath);
+    }
+    return this.entries.get(projectPath)?.packages || [];
+  }
+
+  /**
+   * Everything detected in a project, see detectTechnologyProfile. Detected
+   * once and then shared until the project changes.
+   */
+  getProfile(projectPath: string): Promise<TechnologyProfile> {
+    let profile = this.profiles.get(projectPath);
+    if (!profile) {
+      profile = detectTechnologyProfile(projectPath);
+      this.profiles.set(projectPath, profile);
+      profile.catch(() => this.profiles.delete(projectPath));
+    }
+    return profile;
+  }
+
+  /**
+   * Starts watching a project that is being drawn (a workspace file together
+   * with its member folders). Watchers are shared: each path gets one, however
+   * many views or workspaces show it.
+   */
+  watch(projectPath: string): void {
+    if (isRemotePath(projectPath) || this.watchers.has(projectPath)) return;
+    this.createWatcher(projectPath);
+    this.entries.get(projectPath)?.members?.forEach(member => this.createWatcher(member));
+    // Changes from before the watcher existed went unnoticed
+    this.validated.delete(projectPath);
+    this.enqueue(projectPath);
+  }
+
+  invalidate(projectPath: string): void {
+    this.validated.delete(projectPath);
+    this.profiles.delete(projectPath);
+    this.enqueue(projectPath);
+    this.entries.forEach((entry, entryPath) => {
+      if (entry.members?.includes(projectPath)) {
+        this.validated.delete(entryPath);
+        this.profiles.delete(entryPath);
+        this.enqueue(entryPath);
+      }
+    });
+  }
+
+  /**
+   * Keeps the last known type of a project whose path changed, so its icon
+   * stays while the new location is checked
+   */
+  movePath(oldPath: string, newPath: string): void {
+    const entry = this.entries.get(oldPath);
+    if (!entry || this.entries.has(newPath)) return;
+    this.entries.set(newPath, entry);
+    this.entries.delete(oldPath);
+    this.validated.delete(oldPath);
+    this.profiles.delete(oldPath);
+    this.watchers.get(oldPath)?.dispose();
+    this.watchers.delete(oldPath);
+  }
+
+  // Drops everything detection rules affect, e.g. after the rules setting changed
+  invalidateAll(): void {
+    this.validated.clear();
+    this.profiles.clear();
+    this.entries.forEach(entry => entry.signature = "");
+    this._onDidChange.fire();
+  }
+
+  /**
+   * Forgets projects that are no longer listed: their watchers stop and their
+   * saved types are dropped. Workspace member folders and monorepo packages
+   * are kept as long as their root is.
+   */
+  retain(projectPaths: string[]): void {
+    const kept = new Set(projectPaths);
+    projectPaths.forEach(projectPath => {
+      const entry = this.entries.get(projectPath);
+      entry?.members?.forEach(member => kept.add(member));
+      entry?.packages?.forEach(pkg => kept.add(pkg.path));
+    });
+    this.watchers.forEach((watcher, watchedPath) => {
+      if (!kept.has(watchedPath)) {
+        watcher.dispose();
+        this.watchers.delete(watchedPath);
+        this.validated.delete(watchedPath);
+      }
+    });
+    const removed = [...this.entries.keys()].filter(entryPath => !kept.has(entryPath));
+    if (removed.length > 0) {
+      removed.forEach(entryPath => {
+        this.entries.delete(entryPath);
+        this.validated.delete(entryPath);
+        this.profiles.delete(entryPath);
+      });
+      this.memento?.update(CACHE_KEY, Object.fromEntries(this.entries));
+    }
+  }
+
+  dispose(): void {
+    this.watchers.forEach(watcher => watcher.dispose());
+    this.watchers.clear();
+    if (this.changeTimer) {
+      clearTimeout(this.changeTimer);
+    }
+    this._onDidChange.dispose();
+  }
+
+  private enqueue(projectPath: string): void {
+    if (this.queued.has(projectPath)) return;
+    this.queued.add(projectPath);
+    if (this.queued.size === 1) {
+      setTimeout(() => this.drainQueue(), 0);
+    }
+  }
+
+  private async drainQueue(): Promise<void> {
+    while (this.queued.size > 0) {
+      const [projectPath] = this.queued;
+      try {
+        await this.revalidate(projectPath);
+      } catch (error) {
+        // Unreadable right now: keep the last known type until the project changes again
+        this.validated.add(projectPath);
+      }
+      this.queued.delete(projectPath);
+    }
+    this.memento?.update(CACHE_KEY, Object.fromEntries(this.entries));
+  }
+
+  private async revalidate(projectPath: string): Promise<CachedType> {
+    const cached = this.entries.get(projectPath);
+    if (cached && this.validated.has(projectPath)) {
+      return cached;
+    }
+
+    let entry: CachedType;
+    if (isRemotePath(projectPath)) {
+      entry = { type: "remote", signature: "remote" };
+    } else if (isWorkspaceFile(projectPath)) {
+      const members = (await readWorkspaceFoldersAsync(projectPath)).map(folder => folder.path);
+      const memberEntries: CachedType[] = [];
+      for (const member of members) {
+        memberEntries.push(await this.revalidate(member));
+      }
+      const signature = [await this.getMtime(projectPath), ...memberEntries.map(e => e.signature)].join("|");
+      entry = cached && cached.signature === signature
+        ? cached
+        : { type: pickWorkspaceType(memberEntries.map(e => e.type)), signature, members };
+    } else {
+      const mtimes = [await this.getMtime(projectPath)];
+      for (const manifest of MONOREPO_MANIFEST_FILES) {
+        mtimes.push(await this.getMtime(path.join(projectPath, manifest)));
+      }
+      const signature = mtimes.join("|");
+      if (cached && cached.signature === signature) {
+        entry = cached;
+      } else {
+        const packages = await detectMonorepoPackages(projectPath);
+        entry = { type: await detectFolderTypeAsync(projectPath), signature, packages: packages.length > 0 ? packages : undefined };
+      }
+    }
+
+    this.entries.set(projectPath, entry);
+    this.validated.add(projectPath);
+    // Members of a workspace on screen may only be known now
+    if (this.watchers.has(projectPath)) {
+      entry.members?.forEach(member => this.createWatcher(member));
+    }
+    if (!cached || cached.type !== entry.type || !samePackages(cached.packages, entry.packages)) {
+      this.scheduleChange();
+    }
+    return entry;
+  }
+
+  private async getMtime(filePath: string): Promise<number> {
+    try {
+      return (await fs.promises.stat(filePath)).mtimeMs;
+    } catch (error) {
+      return 0;
+    }
+  }
+
+  // Top-level changes in a project root (or edits to a workspace file) can change its type
+  private createWatcher(projectPath: string): void {
+    if (this.watchers.has(projectPath) || isRemotePath(projectPath)) return;
+
+    const pattern = isWorkspaceFile(projectPath)
+      ? new vscode.RelativePattern(vscode.Uri.file(path.dirname(projectPath)), path.basename(projectPath))
+      : new vscode.RelativePattern(vscode.Uri.file(projectPath), "*");
+    const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+    const onEvent = () => this.invalidate(projectPath);
+    watcher.onDidCreate(onEvent);
+    watcher.onDidChange(onEvent);
+    watcher.onDidDelete(onEvent);
+    this.watchers.set(projectPath, watcher);
+  }
+
+  private scheduleChange(): void {
+    if (this.changeTimer) return;
+    this.changeTimer = setTimeout(() => {
+      this.changeTimer = undefined;
+      this._onDidChange.fire();
+    }, CHANGE_DELAY);
+  }
+}
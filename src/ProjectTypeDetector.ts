@@ -0,0 +1,139 @@
+import * as path from "path";
+import * as fs from "fs";
+import { DetectionRule, getDetectionRules } from "./DetectionRules";
+import { globToRegExp } from "./Glob";
+
+const globCache = new Map<string, RegExp>();
+
+type Dependencies = { [name: string]: string };
+
+// Root-relative path markers ("src/main/kotlin") are checked through pathExists,
+// which callers answer from markers looked up beforehand
+function matchesMarker(marker: string, files: string[], pathExists: (marker: string) => boolean): boolean {
+  if (marker.includes("/")) {
+    return pathExists(marker);
+  }
+  if (/[*?]/.test(marker)) {
+    if (!globCache.has(marker)) {
+      globCache.set(marker, globToRegExp(marker));
+    }
+    const pattern = globCache.get(marker)!;
+    return files.some(f => pattern.test(f));
+  }
+  return files.includes(marker);
+}
+
+// Root markers of a rule; dependency rules look inside package.json
+function getRuleMarkers(rule: DetectionRule): string[] {
+  return rule.markers ?? (rule.dependencies ? ["package.json"] : []);
+}
+
+/**
+ * Whether a folder listing contains a project root marker of any detection
+ * rule. Loose source files (rule extensions) do not count.
+ */
+export function hasProjectMarker(files: string[]): boolean {
+  return getDetectionRules().some(rule =>
+    getRuleMarkers(rule).some(marker => !marker.includes("/") && matchesMarker(marker, files, () => false)) ||
+    (!!rule.allMarkers?.length && rule.allMarkers.every(marker => files.includes(marker)))
+  );
+}
+
+function matchesRule(
+  rule: DetectionRule,
+  files: string[],
+  pathExists: (marker: string) => boolean,
+  getDependencies: () => Dependencies | undefined
+): boolean {
+  const found = getRuleMarkers(rule).some(marker => matchesMarker(marker, files, pathExists)) ||
+    (!!rule.allMarkers?.length && rule.allMarkers.every(marker => matchesMarker(marker, files, pathExists))) ||
+    (rule.extensions || []).some(ext => files.some(f => f.endsWith(ext)));
+  if (!found) return false;
+
+  if (rule.dependencies?.length) {
+    const dependencies = getDependencies();
+    return !!dependencies && rule.dependencies.some(name => name in dependencies);
+  }
+  return true;
+}
+
+// Multi-root workspaces take the most common type among their member folders
+export function pickWorkspaceType(memberTypes: string[]): string {
+  const counts = new Map<string, number>();
+  for (const type of memberTypes) {
+    if (type !== "folder" && type !== "git") {
+      counts.set(type, (counts.get(type) || 0) + 1);
+    }
+  }
+
+  let bestType = "workspace";
+  let bestCount = 0;
+  counts.forEach((count, type) => {
+    if (count > bestCount) {
+      bestType = type;
+      bestCount = count;
+    }
+  });
+  return bestType;
+}
+
+/**
+ * Parsed package.json of a folder, or undefined if it is missing or unreadable
+ */
+export async function readPackageJsonAsync(folderPath: string): Promise<any> {
+  try {
+    return JSON.parse(await fs.promises.readFile(path.join(folderPath, "package.json"), "utf-8"));
+  } catch (e) {
+    return undefined;
+  }
+}
+
+// Path markers ("src/main.rs") present in a folder and its dependencies, read up front so matching never blocks
+async function readRuleInputs(folderPath: string, files: string[], rules: DetectionRule[]): Promise<{ existingMarkers: Set<string>; dependencies: Dependencies | undefined }> {
+  const pathMarkers = [...new Set(rules.flatMap(rule => [...getRuleMarkers(rule), ...(rule.allMarkers || [])]))]
+    .filter(marker => marker.includes("/"));
+  const existingMarkers = new Set<string>();
+  await Promise.all(pathMarkers.map(async marker => {
+    try {
+      await fs.promises.access(path.join(folderPath, marker));
+      existingMarkers.add(marker);
+    } catch (error) {
+      // Marker not present
+    }
+  }));
+
+  const packageJson = files.includes("package.json") ? await readPackageJsonAsync(folderPath) : undefined;
+  const dependencies: Dependencies | undefined = packageJson
+    ? { ...packageJson.dependencies, ...packageJson.devDependencies }
+    : undefined;
+  return { existingMarkers, dependencies };
+}
+
+/**
+ * Every detection rule matching a single folder, highest priority first.
+ * Unlike detectFolderTypeAsync this does not stop at the first match.
+ */
+export async function detectMatchingRulesAsync(folderPath: string, files: string[]): Promise<DetectionRule[]> {
+  const rules = getDetectionRules();
+  const { existingMarkers, dependencies } = await readRuleInputs(folderPath, files, rules);
+  return rules.filter(rule => matchesRule(rule, files, marker => existingMarkers.has(marker), () => dependencies));
+}
+
+/**
+ * Type of a single folder by the highest priority matching rule. Never blocks:
+ * all file system access happens up front, asynchronously. Workspace files
+ * are left to the caller (see pickWorkspaceType).
+ */
+export async function detectFolderTypeAsync(folderPath: string): Promise<string> {
+  let files: string[];
+  try {
+    files = await fs.promises.readdir(folderPath);
+  } catch (error) {
+    return "folder";
+  }
+
+  const rules = getDetectionRules();
+  const { existingMarkers, dependencies } = await readRuleInputs(folderPath, files, rules);
+  const rule = rules.find(r => matchesRule(r, files, marker => existingMarkers.has(marker), () => dependencies));
+  return rule ? rule.type : "folder";
+}
@@ -0,0 +1,74 @@
+import * as vscode from "vscode";
+
+export interface ProjectUsageEntry {
+  count: number;
+  lastOpened: number;
+  // Most recent open timestamps, newest first, capped at MAX_RECENT_VISITS
+  visits: number[];
+}
+
+const USAGE_KEY = "messProjectManager.projectUsage";
+const MAX_RECENT_VISITS = 10;
+const DAY = 24 * 60 * 60 * 1000;
+
+// Weight of a single visit by its age, in the spirit of Firefox's frecency buckets
+function visitWeight(age: number): number {
+  if (age < 4 * DAY) return 100;
+  if (age < 14 * DAY) return 70;
+  if (age < 31 * DAY) return 50;
+  if (age < 90 * DAY) return 30;
+  return 10;
+}
+
+/**
+ * Tracks how often and how recently each project was opened.
+ * Stored per machine in globalState, keyed by project path.
+ */
+export class ProjectUsageTracker {
+  private _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+  constructor(private context: vscode.ExtensionContext) {}
+
+  getUsage(projectPath: string): ProjectUsageEntry | undefined {
+    return this.getAll()[projectPath];
+  }
+
+  async recordOpen(projectPath: string): Promise<void> {
+    const all = this.getAll();
+    const now = Date.now();
+    const entry = all[projectPath] || { count: 0, lastOpened: 0, visits: [] };
+    all[projectPath] = {
+      count: entry.count + 1,
+      lastOpened: now,
+      visits: [now, ...entry.visits].slice(0, MAX_RECENT_VISITS)
+    };
+    await this.context.globalState.update(USAGE_KEY, all);
+    this._onDidChange.fire();
+  }
+
+  // A project whose path changed keeps its history
+  async moveUsage(oldPath: string, newPath: string): Promise<void> {
+    const all = this.getAll();
+    if (!all[oldPath]) return;
+    all[newPath] = all[oldPath];
+    delete all[oldPath];
+    await this.context.globalState.update(USAGE_KEY, all);
+    this._onDidChange.fire();
+  }
+
+  /**
+   * Frecency: the average weight of the recent visits scaled by the total
+   * number of opens, so both frequency and recency raise the score
+   */
+  getFrecency(projectPath: string, now: number = Date.now()): number {
+    const entry = this.getUsage(projectPath);
+    if (!entry || entry.visits.length === 0) return 0;
+    const totalWeight = entry.visits.reduce((sum, visit) => sum + visitWeight(now - visit), 0);
+    return (totalWeight / entry.visits.length) * entry.count;
+  }
+
+  private getAll(): { [projectPath: string]: ProjectUsageEntry } {
+    return { ...this.context.globalState.get<{ [projectPath: string]: ProjectUsageEntry }>(USAGE_KEY, {}) };
+  }
+}
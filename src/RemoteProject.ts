@@ -0,0 +1,143 @@
+import * as vscode from "vscode";
+import { RemoteProjectDescriptor } from "./types";
+
+export const REMOTE_SCHEME = "vscode-remote";
+
+// Anything with a URI scheme other than file:// (and not a Windows drive letter) is remote
+export function isRemotePath(projectPath: string): boolean {
+  return /^[a-zA-Z][\w+.-]+:\/\//.test(projectPath) && !projectPath.startsWith("file://");
+}
+
+function toHex(value: string): string {
+  return Buffer.from(value, "utf8").toString("hex");
+}
+
+function fromHex(value: string): string | undefined {
+  try {
+    return /^[0-9a-fA-F]+$/.test(value) ? Buffer.from(value, "hex").toString("utf8") : undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+export function buildRemoteUri(remote: RemoteProjectDescriptor): vscode.Uri {
+  let authority: string;
+  switch (remote.type) {
+    case "ssh":
+      authority = `ssh-remote+${remote.host}`;
+      break;
+    case "wsl":
+      authority = `wsl+${remote.distro}`;
+      break;
+    case "devcontainer":
+      authority = `dev-container+${toHex(remote.localFolder)}`;
+      break;
+    case "container":
+      authority = `attached-container+${toHex(JSON.stringify({ containerName: remote.containerName }))}`;
+      break;
+  }
+  const remotePath = remote.path.startsWith("/") ? remote.path : `/${remote.path}`;
+  return vscode.Uri.from({ scheme: REMOTE_SCHEME, authority, path: remotePath });
+}
+
+/**
+ * Resolves a stored project path to the URI VS Code should open.
+ * Local paths become file URIs, remote entries are parsed as-is.
+ */
+export function toProjectUri(projectPath: string): vscode.Uri {
+  return isRemotePath(projectPath) ? vscode.Uri.parse(projectPath) : vscode.Uri.file(projectPath);
+}
+
+/**
+ * Short human readable location of a remote project, e.g. "SSH: build-box"
+ */
+export function describeRemote(projectPath: string): string {
+  const uri = vscode.Uri.parse(projectPath);
+  if (uri.scheme !== REMOTE_SCHEME) {
+    return uri.scheme;
+  }
+
+  const separator = uri.authority.indexOf("+");
+  const kind = separator === -1 ? uri.authority : uri.authority.substring(0, separator);
+  const detail = separator === -1 ? "" : uri.authority.substring(separator + 1);
+
+  switch (kind) {
+    case "ssh-remote":
+      return `SSH: ${detail}`;
+    case "wsl":
+      return `WSL: ${detail}`;
+    case "dev-container": {
+      const localFolder = fromHex(detail);
+      return localFolder ? `Dev Container: ${localFolder.split(/[\\/]/).pop()}` : "Dev Container";
+    }
+    case "attached-container": {
+      try {
+        const { containerName } = JSON.parse(fromHex(detail) || "{}");
+        return containerName ? `Container: ${String(containerName).replace(/^\//, "")}` : "Container";
+      } catch (error) {
+        return "Container";
+      }
+    }
+    case "codespaces":
+      return `Codespace: ${detail}`;
+    case "tunnel":
+      return `Tunnel: ${detail}`;
+    default:
+      return kind;
+  }
+}
+
+/**
+ * Asks for the details of a remote location and returns the descriptor
+ */
+export async function promptRemoteDescriptor(): Promise<RemoteProjectDescriptor | undefined> {
+  const kind = await vscode.window.showQuickPick(
+    [
+      { label: "$(remote) SSH Host", type: "ssh" as const },
+      { label: "$(terminal-linux) WSL Distro", type: "wsl" as const },
+      { label: "$(package) Dev Container", type: "devcontainer" as const },
+      { label: "$(vm) Attached Container", type: "container" as const }
+    ],
+    { placeHolder: "Where does the project live?" }
+  );
+  if (!kind) return undefined;
+
+  const required = (value: string) => value.trim() ? null : "This field is required";
+
+  let target: string | undefined;
+  switch (kind.type) {
+    case "ssh":
+      target = await vscode.window.showInputBox({ prompt: "SSH host (as in your SSH config)", placeHolder: "user@build-box", validateInput: required });
+      break;
+    case "wsl":
+      target = await vscode.window.showInputBox({ prompt: "WSL distro name", placeHolder: "Ubuntu", validateInput: required });
+      break;
+    case "devcontainer":
+      target = await vscode.window.showInputBox({ prompt: "Local folder containing .devcontainer", placeHolder: "/home/me/code/app", validateInput: required });
+      break;
+    case "container":
+      target = await vscode.window.showInputBox({ prompt: "Container name", placeHolder: "my-container", validateInput: required });
+      break;
+  }
+  if (!target) return undefined;
+
+  const remotePath = await vscode.window.showInputBox({
+    prompt: "Folder path on the remote side",
+    placeHolder: kind.type === "devcontainer" ? "/workspaces/app" : "/home/user/project",
+    validateInput: value => value.trim().startsWith("/") ? null : "Enter an absolute path"
+  });
+  if (!remotePath) return undefined;
+
+  const trimmedTarget = target.trim();
+  const trimmedPath = remotePath.trim();
+  switch (kind.type) {
+    case "ssh":
+      return { type: "ssh", host: trimmedTarget, path: trimmedPath };
+    case "wsl":
+      return { type: "wsl", distro: trimmedTarget, path: trimmedPath };
+    case "devcontainer":
+      return { type: "devcontainer", localFolder: trimmedTarget, path: trimmedPath };
+    case "container":
+      return { type: "container", containerName: trimmedTarget, path: trimmedPath };
+  }
+}
@@ -0,0 +1,429 @@
+import * as vscode from "vscode";
+import * as os from "os";
+import { createHash } from "crypto";
+import { ProjectStore } from "./ProjectStore";
+import { NotesProvider } from "./NotesProvider";
+import { ProjectCategory, ProjectEntry, SavedSearch } from "./types";
+import { BundleSheet } from "./ProjectBundle";
+import { expandHome } from "./ProjectDiscovery";
+import { fromPortablePath, PathVariables, toPortablePath } from "./PortablePath";
+
+// What roams between machines, with paths in portable ${name}/... form
+interface SyncContent {
+  projects: ProjectEntry[];
+  categories: ProjectCategory[];
+  savedSearches: SavedSearch[];
+  sheets: BundleSheet[];
+}
+
+interface SyncedState extends SyncContent {
+  version: number;
+  updatedAt: number;
+  machineId: string;
+}
+
+// Per machine, never synced
+interface SyncMeta {
+  // Content hash at the last push or pull; empty before the first sync
+  lastSyncedHash: string;
+  // When local data last changed after that, 0 if it has not
+  lastLocalChangeAt: number;
+  // Synced paths as last applied, keyed by local path, so entries keep their synced form
+  portablePaths: { [localPath: string]: string };
+  // Synced projects whose path variable has no mapping on this machine
+  unresolved: ProjectEntry[];
+}
+
+interface ConflictLogEntry {
+  time: number;
+  winner: "this machine" | "another machine";
+  discarded: string[];
+}
+
+const SYNC_STATE_KEY = "messProjectManager.sync.state";
+const SYNC_META_KEY = "messProjectManager.sync.meta";
+const CONFLICT_LOG_KEY = "messProjectManager.sync.conflicts";
+const SYNC_VERSION = 1;
+const MAX_CONFLICT_LOG_ENTRIES = 50;
+// Local edits are pushed once they settle; synced state is polled for changes from other machines
+const PUSH_DELAY = 2000;
+const POLL_INTERVAL = 60 * 1000;
+
+function hashContent(content: SyncContent): string {
+  return createHash("sha1").update(JSON.stringify(content)).digest("hex");
+}
+
+function contentOf(state: SyncedState): SyncContent {
+  return {
+    projects: state.projects || [],
+    categories: state.categories || [],
+    savedSearches: state.savedSearches || [],
+    sheets: state.sheets || []
+  };
+}
+
+function isValidState(state: any): state is SyncedState {
+  return !!state && typeof state.updatedAt === "number"
+    && Array.isArray(state.projects) && Array.isArray(state.categories);
+}
+
+/**
+ * Lines describing what `discarded` had that `kept` does not, for the conflict log
+ */
+function describeDifferences(discarded: SyncContent, kept: SyncContent): string[] {
+  const lines: string[] = [];
+  const compare = <T>(kind: string, lost: T[], won: T[], key: (item: T) => string, name: (item: T) => string) => {
+    const wonByKey = new Map(won.map(item => [key(item), item]));
+    const lostKeys = new Set(lost.map(key));
+    for (const item of lost) {
+      const other = wonByKey.get(key(item));
+      if (!other) {
+        lines.push(`${kind} "${name(item)}" (only in the discarded version)`);
+      } else if (JSON.stringify(other) !== JSON.stringify(item)) {
+        lines.push(`${kind} "${name(item)}" (changed)`);
+      }
+    }
+    for (const item of won) {
+      if (!lostKeys.has(key(item))) {
+        lines.push(`${kind} "${name(item)}" (missing from the discarded version)`);
+      }
+    }
+  };
+  compare("Project", discarded.projects, kept.projects, p => p.path, p => `${p.label} - ${p.path}`);
+  compare("Category", discarded.categories, kept.categories, c => c.id, c => c.name);
+  compare("Saved search", discarded.savedSearches, kept.savedSearches, s => s.id, s => s.name);
+  compare("Sheet", discarded.sheets, kept.sheets, s => s.id, s => s.name);
+  return lines;
+}
+
+/**
+ * Opt-in roaming of projects, categories, saved searches and user sheets
+ * through Settings Sync. A snapshot is kept in globalState under a key
+ * registered with setKeysForSync; local paths are written relative to the
+ * machine's messProjectManager.sync.pathMappings (and ${home}) so they
+ * resolve elsewhere. When both sides changed, the most recent change wins
+ * and what the other side had is recorded in the conflict log.
+ */
+export class SettingsSync implements vscode.Disposable {
+  private disposables: vscode.Disposable[] = [];
+  private pollTimer: NodeJS.Timeout | undefined;
+  private pushTimer: NodeJS.Timeout | undefined;
+  private enabled = false;
+  private syncing = false;
+  // Set while synced data is written locally, so it is not mistaken for a local edit
+  private applying = false;
+  private firstSyncDeclined = false;
+  // Unresolved entries the warning was last shown for, so each set is only reported once
+  private reportedUnresolved = "";
+  private output: vscode.OutputChannel | undefined;
+
+  constructor(
+    private context: vscode.ExtensionContext,
+    private store: ProjectStore,
+    private notesProvider: NotesProvider
+  ) {
+    this.disposables.push(
+      store.onDidChange(() => this.onLocalChange()),
+      notesProvider.onDidChangeTreeData(() => this.onLocalChange()),
+      vscode.window.onDidChangeWindowState(state => {
+        if (state.focused) this.sync();
+      }),
+      vscode.workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration("messProjectManager.sync")) this.configure();
+      })
+    );
+    this.configure();
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Reconciles local data with the synced snapshot: pushes local changes,
+   * applies changes from other machines, and resolves the case where both
+   * changed by last writer wins.
+   */
+  async sync(): Promise<void> {
+    if (!this.enabled || this.syncing) return;
+    this.syncing = true;
+    try {
+      const meta = this.getMeta();
+      const local = this.buildLocalContent(meta);
+      const localHash = hashContent(local);
+      const remote = this.context.globalState.get<SyncedState>(SYNC_STATE_KEY);
+
+      if (!isValidState(remote)) {
+        await this.push(local, localHash, meta);
+        return;
+      }
+
+      const remoteContent = contentOf(remote);
+      const remoteHash = hashContent(remoteContent);
+      if (remoteHash === localHash) {
+        if (meta.lastSyncedHash !== localHash) {
+          await this.saveMeta({ ...meta, lastSyncedHash: localHash, lastLocalChangeAt: 0 });
+        }
+        return;
+      }
+
+      const localChanged = localHash !== meta.lastSyncedHash;
+      const remoteChanged = remoteHash !== meta.lastSyncedHash;
+
+      if (!meta.lastSyncedHash) {
+        // First sync on this machine: nothing to compare times against
+        if (local.projects.length === 0 && local.sheets.length === 0) {
+          await this.apply(remoteContent, remoteHash, meta);
+          return;
+        }
+        if (this.firstSyncDeclined) return;
+        const choice = await vscode.window.showWarningMessage(
+          "Settings Sync already holds projects from another machine. Which version should be kept?",
+          { modal: true },
+          "Use Synced Projects", "Keep This Machine's"
+        );
+        if (choice === "Use Synced Projects") {
+          await this.apply(remoteContent, remoteHash, meta);
+        } else if (choice === "Keep This Machine's") {
+          await this.push(local, localHash, meta);
+        } else {
+          // Ask again after the next reload rather than on every poll
+          this.firstSyncDeclined = true;
+        }
+      } else if (localChanged && remoteChanged) {
+        const localChangedAt = meta.lastLocalChangeAt || Date.now();
+        const remoteWins = remote.updatedAt >= localChangedAt;
+        const conflict: ConflictLogEntry = {
+          time: Date.now(),
+          winner: remoteWins ? "another machine" : "this machine",
+          discarded: remoteWins ? describeDifferences(local, remoteContent) : describeDifferences(remoteContent, local)
+        };
+        if (remoteWins) {
+          await this.apply(remoteContent, remoteHash, meta);
+        } else {
+          await this.push(local, localHash, meta);
+        }
+        // Resolved first: the notification must not hold up syncing while it is open
+        await this.logConflict(conflict);
+        this.notifyConflict(conflict);
+      } else if (remoteChanged) {
+        await this.apply(remoteContent, remoteHash, meta);
+      } else {
+        await this.push(local, localHash, meta);
+      }
+    } catch (error) {
+      this.getOutput().appendLine(`[${new Date().toLocaleString()}] Sync failed: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      this.syncing = false;
+    }
+  }
+
+  showConflictLog(): void {
+    const output = this.getOutput();
+    output.clear();
+    const entries = this.context.globalState.get<ConflictLogEntry[]>(CONFLICT_LOG_KEY, []);
+    if (entries.length === 0) {
+      output.appendLine("No sync conflicts so far.");
+    }
+    entries.forEach(entry => this.writeConflict(output, entry));
+    output.show();
+  }
+
+  dispose(): void {
+    this.stopTimers();
+    this.disposables.forEach(d => d.dispose());
+    this.output?.dispose();
+  }
+
+  private configure(): void {
+    this.enabled = vscode.workspace.getConfiguration("messProjectManager.sync").get<boolean>("enabled", false);
+    this.context.globalState.setKeysForSync(this.enabled ? [SYNC_STATE_KEY] : []);
+    this.stopTimers();
+    if (this.enabled) {
+      this.pollTimer = setInterval(() => this.sync(), POLL_INTERVAL);
+      this.sync();
+    }
+  }
+
+  private stopTimers(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+    if (this.pushTimer) {
+      clearTimeout(this.pushTimer);
+      this.pushTimer = undefined;
+    }
+  }
+
+  private onLocalChange(): void {
+    if (!this.enabled || this.applying) return;
+    const changedAt = Date.now();
+    if (this.pushTimer) {
+      clearTimeout(this.pushTimer);
+    }
+    this.pushTimer = setTimeout(async () => {
+      this.pushTimer = undefined;
+      const meta = this.getMeta();
+      // Only a real difference from the last synced content counts as a local change
+      if (hashContent(this.buildLocalContent(meta)) !== meta.lastSyncedHash) {
+        await this.saveMeta({ ...meta, lastLocalChangeAt: Math.max(meta.lastLocalChangeAt, changedAt) });
+      }
+      await this.sync();
+    }, PUSH_DELAY);
+  }
+
+  private getPathVariables(): PathVariables {
+    const mappings = vscode.workspace.getConfiguration("messProjectManager.sync").get<{ [name: string]: string }>("pathMappings", {});
+    return [
+      ...Object.entries(mappings || {})
+        .filter(([name, folder]) => /^[\w.-]+$/.test(name) && typeof folder === "string" && folder)
+        .map(([name, folder]): [string, string] => [name, expandHome(folder)]),
+      ["home", os.homedir()]
+    ];
+  }
+
+  private buildLocalContent(meta: SyncMeta): SyncContent {
+    const variables = this.getPathVariables();
+    const projects = this.store.getProjects().map(project => {
+      // Keep the synced spelling of a path as long as it still resolves to the same place
+      const known = meta.portablePaths[project.path];
+      const portable = known && fromPortablePath(known, variables) === project.path
+        ? known
+        : toPortablePath(project.path, variables);
+      return { ...project, path: portable };
+    });
+
+    return {
+      projects: [...projects, ...meta.unresolved],
+      categories: this.store.getCategories(),
+      savedSearches: this.store.getSavedSearches(),
+      sheets: this.notesProvider.getSheets()
+        .filter(sheet => sheet.id !== "useful-tips")
+        .map(sheet => ({ id: sheet.id, name: sheet.name, content: sheet.content }))
+        .sort((a, b) => a.id.localeCompare(b.id))
+    };
+  }
+
+  private async push(local: SyncContent, localHash: string, meta: SyncMeta): Promise<void> {
+    const state: SyncedState = {
+      version: SYNC_VERSION,
+      updatedAt: Date.now(),
+      machineId: vscode.env.machineId,
+      ...local
+    };
+    await this.context.globalState.update(SYNC_STATE_KEY, state);
+    await this.saveMeta({ ...meta, lastSyncedHash: localHash, lastLocalChangeAt: 0 });
+  }
+
+  private async apply(remote: SyncContent, remoteHash: string, meta: SyncMeta): Promise<void> {
+    const variables = this.getPathVariables();
+    const projects: ProjectEntry[] = [];
+    const unresolved: ProjectEntry[] = [];
+    const portablePaths: { [localPath: string]: string } = {};
+    for (const project of remote.projects) {
+      const localPath = fromPortablePath(project.path, variables);
+      if (localPath === undefined) {
+        unresolved.push(project);
+        continue;
+      }
+      portablePaths[localPath] = project.path;
+      projects.push({ ...project, path: localPath });
+    }
+
+    this.applying = true;
+    try {
+      const saved = this.store.update(state => {
+        state.projects = projects;
+        state.categories = remote.categories;
+        state.savedSearches = remote.savedSearches;
+      }, "Apply synced changes");
+      // false also means there was nothing to change; anything else is a failed write
+      // (update() has said why) and must not be recorded as synced
+      const upToDate = JSON.stringify(this.store.getProjects()) === JSON.stringify(projects)
+        && JSON.stringify(this.store.getCategories()) === JSON.stringify(remote.categories)
+        && JSON.stringify(this.store.getSavedSearches()) === JSON.stringify(remote.savedSearches);
+      if (!saved && !upToDate) {
+        this.getOutput().appendLine(`[${new Date().toLocaleString()}] Synced changes could not be applied, will retry on the next sync`);
+        return;
+      }
+
+      const localSheets = this.notesProvider.getSheets().filter(sheet => sheet.id !== "useful-tips");
+      for (const sheet of remote.sheets) {
+        const existing = localSheets.find(s => s.id === sheet.id);
+        if (!existing || existing.content !== sheet.content) {
+          this.notesProvider.writeSheet(sheet.id, sheet.content);
+        }
+      }
+      for (const sheet of localSheets) {
+        if (!remote.sheets.some(s => s.id === sheet.id)) {
+          this.notesProvider.deleteSheet(sheet.id, false);
+        }
+      }
+    } finally {
+      this.applying = false;
+    }
+
+    await this.saveMeta({ lastSyncedHash: remoteHash, lastLocalChangeAt: 0, portablePaths, unresolved });
+
+    const unresolvedKey = unresolved.map(p => p.path).sort().join("\n");
+    if (unresolved.length > 0 && unresolvedKey !== this.reportedUnresolved) {
+      const variablesUsed = [...new Set(unresolved.map(p => p.path.match(/^\$\{([^}]+)\}/)?.[1]).filter((name): name is string => !!name))];
+      this.getOutput().appendLine(`[${new Date().toLocaleString()}] ${unresolved.length} synced project(s) skipped, no path mapping for: ${variablesUsed.join(", ")}`);
+      this.notifyUnresolved(unresolved.length, variablesUsed);
+    }
+    this.reportedUnresolved = unresolvedKey;
+  }
+
+  private async notifyUnresolved(count: number, variablesUsed: string[]): Promise<void> {
+    const action = await vscode.window.showWarningMessage(
+      `⚠️ ${count} synced project(s) use path variables this machine does not map (${variablesUsed.map(v => `\${${v}}`).join(", ")}).`,
+      "Edit Path Mappings"
+    );
+    if (action === "Edit Path Mappings") {
+      await vscode.commands.executeCommand("workbench.action.openSettings", "messProjectManager.sync.pathMappings");
+    }
+  }
+
+  private getMeta(): SyncMeta {
+    return {
+      lastSyncedHash: "",
+      lastLocalChangeAt: 0,
+      portablePaths: {},
+      unresolved: [],
+      ...this.context.globalState.get<Partial<SyncMeta>>(SYNC_META_KEY, {})
+    };
+  }
+
+  private async saveMeta(meta: SyncMeta): Promise<void> {
+    await this.context.globalState.update(SYNC_META_KEY, meta);
+  }
+
+  private async logConflict(entry: ConflictLogEntry): Promise<void> {
+    const entries = [...this.context.globalState.get<ConflictLogEntry[]>(CONFLICT_LOG_KEY, []), entry];
+    await this.context.globalState.update(CONFLICT_LOG_KEY, entries.slice(-MAX_CONFLICT_LOG_ENTRIES));
+    this.writeConflict(this.getOutput(), entry);
+  }
+
+  private async notifyConflict(entry: ConflictLogEntry): Promise<void> {
+    const action = await vscode.window.showInformationMessage(
+      `🔄 Sync conflict: kept the version from ${entry.winner}. ${entry.discarded.length} difference(s) were logged.`,
+      "Show Log"
+    );
+    if (action === "Show Log") {
+      this.showConflictLog();
+    }
+  }
+
+  private writeConflict(output: vscode.OutputChannel, entry: ConflictLogEntry): void {
+    output.appendLine(`[${new Date(entry.time).toLocaleString()}] Conflict - kept the version from ${entry.winner}, discarded:`);
+    (entry.discarded.length > 0 ? entry.discarded : ["(no differences in content)"]).forEach(line => output.appendLine(`  ${line}`));
+  }
+
+  private getOutput(): vscode.OutputChannel {
+    if (!this.output) {
+      this.output = vscode.window.createOutputChannel("Mess Project Manager Sync");
+    }
+    return this.output;
+  }
+}
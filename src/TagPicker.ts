@@ -0,0 +1,44 @@
+import * as vscode from "vscode";
+
+interface TagPickItem extends vscode.QuickPickItem {
+  tag: string;
+}
+
+/**
+ * Quick pick for choosing a tag. Existing tags are offered as completions,
+ * and whatever is typed can be created as a new tag.
+ */
+export function pickTag(existingTags: string[], placeHolder: string): Promise<string | undefined> {
+  return new Promise(resolve => {
+    const quickPick = vscode.window.createQuickPick<TagPickItem>();
+    const existingItems: TagPickItem[] = existingTags.map(tag => ({
+      label: `$(tag) ${tag}`,
+      tag
+    }));
+
+    quickPick.placeholder = placeHolder;
+    quickPick.items = existingItems;
+
+    quickPick.onDidChangeValue(value => {
+      const tag = value.trim();
+      const exists = existingTags.some(t => t.toLowerCase() === tag.toLowerCase());
+      quickPick.items = tag && !exists
+        ? [{ label: `$(add) Create tag "${tag}"`, tag, alwaysShow: true }, ...existingItems]
+        : existingItems;
+    });
+
+    let accepted = false;
+    quickPick.onDidAccept(() => {
+      const selected = quickPick.selectedItems[0];
+      accepted = true;
+      resolve(selected?.tag);
+      quickPick.hide();
+    });
+    quickPick.onDidHide(() => {
+      if (!accepted) resolve(undefined);
+      quickPick.dispose();
+    });
+
+    quickPick.show();
+  });
+}
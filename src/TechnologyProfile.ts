@@ -0,0 +1,318 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import * as fs from "fs";
+import { detectMatchingRulesAsync } from "./ProjectTypeDetector";
+import { isWorkspaceFile, readWorkspaceFolders } from "./WorkspaceProject";
+import { globToRegExp } from "./Glob";
+
+export interface RuntimeVersion {
+  runtime: string;
+  version: string;
+  // Project-relative file the version was read from
+  source: string;
+}
+
+/**
+ * Everything detected in a project, not just the primary type that picks its icon
+ */
+export interface TechnologyProfile {
+  stacks: string[];
+  frameworks: string[];
+  packageManagers: string[];
+  runtimes: RuntimeVersion[];
+}
+
+interface FrameworkSignature {
+  name: string;
+  // package.json dependencies or devDependencies
+  npm?: string[];
+  // Files whose presence alone identifies the framework
+  files?: string[];
+  // Files whose content identifies the framework
+  contains?: { file: string; pattern: RegExp }[];
+}
+
+const PYTHON_MANIFESTS = ["requirements.txt", "pyproject.toml", "Pipfile"];
+const GRADLE_MANIFESTS = ["pom.xml", "build.gradle", "build.gradle.kts"];
+
+const FRAMEWORKS: FrameworkSignature[] = [
+  { name: "React", npm: ["react"] },
+  { name: "Next.js", npm: ["next"] },
+  { name: "Vue", npm: ["vue"] },
+  { name: "Nuxt", npm: ["nuxt"] },
+  { name: "Angular", npm: ["@angular/core"] },
+  { name: "Svelte", npm: ["svelte"] },
+  { name: "Electron", npm: ["electron"] },
+  { name: "Express", npm: ["express"] },
+  { name: "NestJS", npm: ["@nestjs/core"] },
+  { name: "Fastify", npm: ["fastify"] },
+  { name: "Vite", npm: ["vite"] },
+  { name: "Django", files: ["manage.py"], contains: PYTHON_MANIFESTS.map(file => ({ file, pattern: /\bdjango\b/i })) },
+  { name: "Flask", contains: PYTHON_MANIFESTS.map(file => ({ file, pattern: /\bflask\b/i })) },
+  { name: "FastAPI", contains: PYTHON_MANIFESTS.map(file => ({ file, pattern: /\bfastapi\b/i })) },
+  { name: "Spring Boot", contains: GRADLE_MANIFESTS.map(file => ({ file, pattern: /spring-boot/ })) },
+  { name: "Rails", contains: [{ file: "Gemfile", pattern: /gem\s+["']rails["']/ }] },
+  { name: "Laravel", contains: [{ file: "composer.json", pattern: /"laravel\/framework"/ }] },
+  { name: "Phoenix", contains: [{ file: "mix.exs", pattern: /:phoenix\b/ }] },
+  { name: "Axum", contains: [{ file: "Cargo.toml", pattern: /^\s*axum\s*=/m }] },
+  { name: "Actix Web", contains: [{ file: "Cargo.toml", pattern: /^\s*actix-web\s*=/m }] }
+];
+
+const PACKAGE_MANAGERS: { name: string; files: string[] }[] = [
+  { name: "npm", files: ["package-lock.json"] },
+  { name: "pnpm", files: ["pnpm-lock.yaml"] },
+  { name: "yarn", files: ["yarn.lock"] },
+  { name: "bun", files: ["bun.lockb", "bun.lock"] },
+  { name: "poetry", files: ["poetry.lock"] },
+  { name: "pipenv", files: ["Pipfile", "Pipfile.lock"] },
+  { name: "uv", files: ["uv.lock"] },
+  { name: "pip", files: ["requirements.txt"] },
+  { name: "cargo", files: ["Cargo.toml"] },
+  { name: "go modules", files: ["go.mod"] },
+  { name: "composer", files: ["composer.json"] },
+  { name: "bundler", files: ["Gemfile"] },
+  { name: "maven", files: ["pom.xml"] },
+  { name: "gradle", files: ["build.gradle", "build.gradle.kts"] },
+  { name: "mix", files: ["mix.exs"] },
+  { name: "pub", files: ["pubspec.yaml"] }
+];
+
+// Single-line version files: the whole (first) line is the version
+const VERSION_FILES: { file: string; runtime: string }[] = [
+  { file: ".nvmrc", runtime: "node" },
+  { file: ".node-version", runtime: "node" },
+  { file: ".python-version", runtime: "python" },
+  { file: ".ruby-version", runtime: "ruby" },
+  { file: ".java-version", runtime: "java" },
+  { file: "rust-toolchain", runtime: "rust" }
+];
+
+interface ScannedFolder {
+  folderPath: string;
+  // Relative to the project root, "" for the root itself
+  relativePath: string;
+  files: string[];
+}
+
+async function readText(filePath: string): Promise<string | undefined> {
+  try {
+    return await fs.promises.readFile(filePath, "utf-8");
+  } catch (error) {
+    return undefined;
+  }
+}
+
+async function readJson(filePath: string): Promise<any> {
+  const text = await readText(filePath);
+  if (text === undefined) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    return undefined;
+  }
+}
+
+function getScanSettings(): { depth: number; ignore: RegExp[] } {
+  const config = vscode.workspace.getConfiguration("messProjectManager.technologyProfile");
+  return {
+    depth: Math.max(0, config.get<number>("depth", 2)),
+    ignore: config.get<string[]>("ignore", []).map(globToRegExp)
+  };
+}
+
+// The project root plus its subfolders down to the configured depth, minus ignored ones
+async function scanFolders(projectPath: string): Promise<ScannedFolder[]> {
+  const { depth: maxDepth, ignore } = getScanSettings();
+  const result: ScannedFolder[] = [];
+  const queue: { folderPath: string; relativePath: string; depth: number }[] = [
+    { folderPath: projectPath, relativePath: "", depth: 0 }
+  ];
+
+  while (queue.length > 0) {
+    const { folderPath, relativePath, depth } = queue.shift()!;
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(folderPath, { withFileTypes: true });
+    } catch (error) {
+      continue;
+    }
+    result.push({ folderPath, relativePath, files: entries.map(e => e.name) });
+
+    if (depth >= maxDepth) continue;
+    for (const entry of entries) {
+      if (!entry.isDirectory()) continue;
+      const childRelativePath = relativePath ? `${relativePath}/${entry.name}` : entry.name;
+      if (ignore.some(pattern => pattern.test(childRelativePath) || pattern.test(entry.name))) {
+        continue;
+      }
+      queue.push({ folderPath: path.join(folderPath, entry.name), relativePath: childRelativePath, depth: depth + 1 });
+    }
+  }
+
+  return result;
+}
+
+async function detectRuntimes(folder: ScannedFolder): Promise<RuntimeVersion[]> {
+  const runtimes: RuntimeVersion[] = [];
+  const source = (file: string) => folder.relativePath ? `${folder.relativePath}/${file}` : file;
+  const read = async (file: string) => folder.files.includes(file) ? readText(path.join(folder.folderPath, file)) : undefined;
+
+  for (const { file, runtime } of VERSION_FILES) {
+    const version = (await read(file))?.split(/\r?\n/)[0].trim();
+    if (version) runtimes.push({ runtime, version, source: source(file) });
+  }
+
+  // asdf / mise: one "tool version" pair per line
+  (await read(".tool-versions"))?.split(/\r?\n/).forEach(line => {
+    const match = line.trim().match(/^([\w-]+)\s+(\S+)/);
+    if (match && !line.trim().startsWith("#")) {
+      runtimes.push({ runtime: match[1], version: match[2], source: source(".tool-versions") });
+    }
+  });
+
+  const goDirective = (await read("go.mod"))?.match(/^go\s+(\S+)/m);
+  if (goDirective) runtimes.push({ runtime: "go", version: goDirective[1], source: source("go.mod") });
+
+  const rustChannel = (await read("rust-toolchain.toml"))?.match(/^\s*channel\s*=\s*"([^"]+)"/m);
+  if (rustChannel) runtimes.push({ runtime: "rust", version: rustChannel[1], source: source("rust-toolchain.toml") });
+
+  if (folder.files.includes("package.json")) {
+    const engines = (await readJson(path.join(folder.folderPath, "package.json")))?.engines;
+    if (engines && typeof engines.node === "string") {
+      runtimes.push({ runtime: "node", version: engines.node, source: source("package.json") });
+    }
+  }
+
+  return runtimes;
+}
+
+async function detectPackageManagers(folder: ScannedFolder): Promise<string[]> {
+  const managers = PACKAGE_MANAGERS
+    .filter(manager => manager.files.some(file => folder.files.includes(file)))
+    .map(manager => manager.name);
+
+  // Corepack's "packageManager": "pnpm@8.15.0"
+  if (folder.files.includes("package.json")) {
+    const declared = (await readJson(path.join(folder.folderPath, "package.json")))?.packageManager;
+    if (typeof declared === "string") {
+      managers.push(declared.split("@")[0]);
+    }
+  }
+  return managers;
+}
+
+async function detectFrameworks(folder: ScannedFolder): Promise<string[]> {
+  let dependencies: { [name: string]: string } | undefined;
+  if (folder.files.includes("package.json")) {
+    const packageJson = await readJson(path.join(folder.folderPath, "package.json"));
+    dependencies = packageJson ? { ...packageJson.dependencies, ...packageJson.devDependencies } : undefined;
+  }
+
+  // Every file a signature looks into is read once, up front
+  const contents = new Map<string, string | undefined>();
+  const contentFiles = unique(FRAMEWORKS.flatMap(f => (f.contains || []).map(c => c.file))).filter(file => folder.files.includes(file));
+  await Promise.all(contentFiles.map(async file => contents.set(file, await readText(path.join(folder.folderPath, file)))));
+  const contentOf = (file: string) => contents.get(file);
+
+  return FRAMEWORKS
+    .filter(framework =>
+      (framework.npm || []).some(name => !!dependencies && name in dependencies) ||
+      (framework.files || []).some(file => folder.files.includes(file)) ||
+      (framework.contains || []).some(({ file, pattern }) => pattern.test(contentOf(file) || ""))
+    )
+    .map(framework => framework.name);
+}
+
+function unique<T>(values: T[]): T[] {
+  return [...new Set(values)];
+}
+
+function mergeProfiles(profiles: TechnologyProfile[]): TechnologyProfile {
+  const runtimeKeys = new Set<string>();
+  return {
+    stacks: unique(profiles.flatMap(p => p.stacks)),
+    frameworks: unique(profiles.flatMap(p => p.frameworks)),
+    packageManagers: unique(profiles.flatMap(p => p.packageManagers)),
+    runtimes: profiles.flatMap(p => p.runtimes).filter(r => {
+      const key = `${r.runtime}@${r.version}`;
+      if (runtimeKeys.has(key)) return false;
+      runtimeKeys.add(key);
+      return true;
+    })
+  };
+}
+
+/**
+ * Detects every stack, framework, package manager and pinned runtime in a
+ * project, looking into subfolders as deep as technologyProfile.depth allows.
+ * Workspace files combine the profiles of their member folders.
+ */
+export async function detectTechnologyProfile(projectPath: string): Promise<TechnologyProfile> {
+  if (isWorkspaceFile(projectPath)) {
+    return mergeProfiles(await Promise.all(readWorkspaceFolders(projectPath).map(folder => detectTechnologyProfile(folder.path))));
+  }
+
+  const profiles: TechnologyProfile[] = [];
+  for (const folder of await scanFolders(projectPath)) {
+    profiles.push({
+      // "git" is version control, not a stack
+      stacks: (await detectMatchingRulesAsync(folder.folderPath, folder.files))
+        .filter(rule => !rule.dependencies && rule.type !== "git")
+        .map(rule => rule.type),
+      frameworks: await detectFrameworks(folder),
+      packageManagers: await detectPackageManagers(folder),
+      runtimes: await detectRuntimes(folder)
+    });
+  }
+  return mergeProfiles(profiles);
+}
+
+export function isEmptyProfile(profile: TechnologyProfile): boolean {
+  return profile.stacks.length === 0 && profile.frameworks.length === 0
+    && profile.packageManagers.length === 0 && profile.runtimes.length === 0;
+}
+
+// "Label: a, b" lines for tooltips; empty sections are left out
+export function formatProfileLines(profile: TechnologyProfile): string[] {
+  const lines: string[] = [];
+  if (profile.stacks.length > 0) lines.push(`Stacks: ${profile.stacks.join(", ")}`);
+  if (profile.frameworks.length > 0) lines.push(`Frameworks: ${profile.frameworks.join(", ")}`);
+  if (profile.packageManagers.length > 0) lines.push(`Package managers: ${profile.packageManagers.join(", ")}`);
+  if (profile.runtimes.length > 0) lines.push(`Runtimes: ${profile.runtimes.map(r => `${r.runtime} ${r.version}`).join(", ")}`);
+  return lines;
+}
+
+export function formatProfileMarkdown(label: string, projectPath: string, profile: TechnologyProfile): string {
+  const section = (title: string, items: string[]) =>
+    `## ${title}\n\n${items.length > 0 ? items.map(item => `- ${item}`).join("\n") : "_None detected_"}\n`;
+
+  return [
+    `# ${label}\n`,
+    `\`${projectPath}\`\n`,
+    section("Stacks", profile.stacks),
+    section("Frameworks", profile.frameworks),
+    section("Package managers", profile.packageManagers),
+    section("Runtime versions", profile.runtimes.map(r => `**${r.runtime}** ${r.version} — \`${r.source}\``))
+  ].join("\n");
+}
+
+export const PROFILE_SCHEME = "messProjectProfile";
+
+/**
+ * Read-only markdown documents describing a project's technology profile,
+ * addressed as messProjectProfile:/<label>.md?label=<label>&path=<project path>.
+ * The path part only names the editor tab; the query is what gets read.
+ */
+export class TechnologyProfileDocumentProvider implements vscode.TextDocumentContentProvider {
+  static uriFor(label: string, projectPath: string): vscode.Uri {
+    const query = new URLSearchParams({ label, path: projectPath }).toString();
+    return vscode.Uri.from({ scheme: PROFILE_SCHEME, path: `/${label.replace(/[\\/]/g, "-")}.md`, query });
+  }
+
+  async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    const query = new URLSearchParams(uri.query);
+    const projectPath = query.get("path") || "";
+    const label = query.get("label") || path.basename(projectPath);
+    return formatProfileMarkdown(label, projectPath, await detectTechnologyProfile(projectPath));
+  }
+}
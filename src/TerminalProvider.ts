@@ -4,9 +4,12 @@ import * as fs from "fs";
 import { exec } from "child_process";
 import { promisify } from "util";
 import { Console } from "console";
+import { isRemotePath } from "./RemoteProject";
 
 const execAsync = promisify(exec);
 
+const REMOTE_TERMINAL_MESSAGE = "⚠️ Terminals for remote projects are only available inside the remote window. Open the project first.";
+
 export interface TerminalOptions {
   type: 'integrated' | 'external' | 'cmd' | 'powershell' | 'bash' | 'git-bash';
   admin?: boolean;
@@ -30,6 +33,11 @@ export class TerminalProvider {
    */
   async openIntegratedTerminal(workingDirectory: string, projectName: string): Promise<void> {
     try {
+      if (isRemotePath(workingDirectory)) {
+        vscode.window.showWarningMessage(REMOTE_TERMINAL_MESSAGE);
+        return;
+      }
+
       if (!fs.existsSync(workingDirectory)) {
         vscode.window.showErrorMessage(`❌ Directory does not exist: ${workingDirectory}`);
         return;
@@ -75,6 +83,11 @@ export class TerminalProvider {
     const { type, workingDirectory, projectName, admin = false } = options;
 
     try {
+      if (isRemotePath(workingDirectory)) {
+        vscode.window.showWarningMessage(REMOTE_TERMINAL_MESSAGE);
+        return;
+      }
+
       if (!fs.existsSync(workingDirectory)) {
         vscode.window.showErrorMessage(`❌ Directory does not exist: ${workingDirectory}`);
         return;
@@ -108,6 +121,11 @@ export class TerminalProvider {
    * Shows terminal selection menu
    */
   async showTerminalSelectionMenu(workingDirectory: string, projectName: string): Promise<void> {
+    if (isRemotePath(workingDirectory)) {
+      vscode.window.showWarningMessage(REMOTE_TERMINAL_MESSAGE);
+      return;
+    }
+
     const platform = process.platform;
     const options: vscode.QuickPickItem[] = [
       {
@@ -0,0 +1,114 @@
+import * as path from "path";
+import * as fs from "fs";
+import { fileURLToPath } from "url";
+
+export const WORKSPACE_EXTENSION = ".code-workspace";
+
+export interface WorkspaceFolder {
+  name: string;
+  // Local folder path, or the full URI of a remote member (a "uri" entry)
+  path: string;
+}
+
+export function isWorkspaceFile(projectPath: string): boolean {
+  return projectPath.toLowerCase().endsWith(WORKSPACE_EXTENSION);
+}
+
+// .code-workspace files are JSONC: strip comments and trailing commas (outside strings) before parsing
+export function parseJsonc(text: string): any {
+  let result = "";
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const next = text[i + 1];
+
+    if (inString) {
+      result += char;
+      if (char === "\\") {
+        result += next ?? "";
+        i++;
+      } else if (char === "\"") {
+        inString = false;
+      }
+    } else if (char === "\"") {
+      inString = true;
+      result += char;
+    } else if (char === "/" && next === "/") {
+      while (i < text.length && text[i] !== "\n") i++;
+      result += "\n";
+    } else if (char === "/" && next === "*") {
+      i += 2;
+      while (i < text.length && !(text[i] === "*" && text[i + 1] === "/")) i++;
+      i++;
+    } else if (char === "}" || char === "]") {
+      // Output so far ends outside any string here, so a final comma is a trailing one
+      result = result.replace(/,(\s*)$/, "$1") + char;
+    } else {
+      result += char;
+    }
+  }
+  return JSON.parse(result);
+}
+
+/**
+ * Member folders of parsed .code-workspace content. Relative paths are
+ * resolved against baseDir; "uri" members stay full URIs (file:// ones
+ * become local paths), so they show up as remote projects.
+ */
+export function parseWorkspaceFolders(workspace: any, baseDir: string): WorkspaceFolder[] {
+  return (Array.isArray(workspace?.folders) ? workspace.folders : [])
+    .map((folder: any): WorkspaceFolder | undefined => {
+      if (folder && typeof folder.path === "string") {
+        const folderPath = path.resolve(baseDir, folder.path);
+        return { name: folder.name || path.basename(folderPath), path: folderPath };
+      }
+      if (folder && typeof folder.uri === "string" && /^[a-zA-Z][\w+.-]+:\/\//.test(folder.uri)) {
+        const folderPath = folder.uri.startsWith("file://") ? fileURLToPath(folder.uri) : folder.uri;
+        const fallbackName = decodeURIComponent(folderPath.replace(/[\\/]+$/, "").split(/[\\/]/).pop() || folderPath);
+        return { name: folder.name || fallbackName, path: folderPath };
+      }
+      return undefined;
+    })
+    .filter((folder: WorkspaceFolder | undefined): folder is WorkspaceFolder => !!folder);
+}
+
+/**
+ * Reads the member folders of a .code-workspace file, see parseWorkspaceFolders.
+ * Returns [] if the file is unreadable.
+ */
+export function readWorkspaceFolders(workspaceFile: string): WorkspaceFolder[] {
+  try {
+    return parseWorkspaceFolders(parseJsonc(fs.readFileSync(workspaceFile, "utf-8")), path.dirname(workspaceFile));
+  } catch (error) {
+    return [];
+  }
+}
+
+// readWorkspaceFolders for background work, which should not block on the disk
+export async function readWorkspaceFoldersAsync(workspaceFile: string): Promise<WorkspaceFolder[]> {
+  try {
+    return parseWorkspaceFolders(parseJsonc(await fs.promises.readFile(workspaceFile, "utf-8")), path.dirname(workspaceFile));
+  } catch (error) {
+    return [];
+  }
+}
+
+/**
+ * Writes a new .code-workspace file. Folder paths are stored relative to the
+ * file, as VS Code does itself, so the workspace can be moved along with them.
+ */
+export function writeWorkspaceFile(workspaceFile: string, folders: WorkspaceFolder[]): void {
+  const baseDir = path.dirname(workspaceFile);
+  const workspace = {
+    folders: folders.map(folder => {
+      const relativePath = path.relative(baseDir, folder.path);
+      // Different drive on Windows - relative path is impossible
+      const folderPath = path.isAbsolute(relativePath) ? folder.path : (relativePath.split(path.sep).join("/") || ".");
+      return folder.name !== path.basename(folder.path)
+        ? { name: folder.name, path: folderPath }
+        : { path: folderPath };
+    }),
+    settings: {}
+  };
+  fs.writeFileSync(workspaceFile, JSON.stringify(workspace, null, 2));
+}
@@ -1,48 +1,202 @@
 import * as vscode from "vscode";
 import * as path from "path";
 import * as fs from "fs";
-import { ProjectProvider, ProjectItem } from "./ProjectProvider";
+import { ProjectProvider, ProjectItem, PackageItem } from "./ProjectProvider";
 import { GitProjectProvider, GitProjectItem } from "./GitProjectProvider";
 import { TerminalProvider } from "./TerminalProvider";
 import { NotesProvider, NoteItem, SheetItem, HeaderItem } from "./NotesProvider";
+import { ProjectStore } from "./ProjectStore";
+import { expandHome, ProjectDiscovery } from "./ProjectDiscovery";
+import { buildRemoteUri, isRemotePath, promptRemoteDescriptor, toProjectUri } from "./RemoteProject";
+import { isWorkspaceFile, writeWorkspaceFile, WORKSPACE_EXTENSION } from "./WorkspaceProject";
+import { pickTag } from "./TagPicker";
+import { createCategoryId, getCategoryPath, getDescendantIds } from "./CategoryTree";
+import { ProjectUsageTracker } from "./ProjectUsage";
+import { ProjectSwitcher } from "./ProjectSwitcher";
+import { parseProjectQuery, PROJECT_QUERY_HELP } from "./ProjectQuery";
+import { getDetectionRules, resetDetectionRules } from "./DetectionRules";
+import { PROFILE_SCHEME, TechnologyProfileDocumentProvider } from "./TechnologyProfile";
+import { ProjectTypeCache } from "./ProjectTypeCache";
+import { getPackageScripts } from "./MonorepoPackages";
+import { ProjectHealth } from "./ProjectHealth";
+import { GitStatusCache } from "./GitStatus";
+import { ProjectImporter } from "./ProjectImport";
+import { ProjectBundle } from "./ProjectBundle";
+import { SettingsSync } from "./SettingsSync";
+import { ProjectDetailsPanel } from "./ProjectDetailsPanel";
+import { ProjectHistory, showUndoableMessage } from "./ProjectHistory";
+import { getSortModeLabel, PROJECT_SORT_MODES } from "./ProjectSort";
+import { CATEGORY_COLORS, ProjectDecorationProvider } from "./ProjectDecorations";
+import { pickCodicon } from "./Codicons";
+import { ProjectCategory } from "./types";
+import { ConfigDiagnostics, ConfigSchemaProvider, SCHEMA_SCHEME } from "./ConfigSchema";
 
 export async function activate(context: vscode.ExtensionContext) {
   const storagePath = context.globalStorageUri.fsPath;
-  if (!fs.existsSync(storagePath)) {
-    fs.mkdirSync(storagePath, { recursive: true });
-  }
 
-  const configFile = path.join(storagePath, "projects.json");
-  if (!fs.existsSync(configFile)) {
-    fs.writeFileSync(configFile, JSON.stringify({ projects: [] }, null, 2));
-  }
+  // Shared store owning projects.json and categories.json
+  const store = new ProjectStore(storagePath);
+  context.subscriptions.push(store);
+
+  // Category colors, inactive projects and Git badges, on every item with a project resourceUri
+  const decorationProvider = new ProjectDecorationProvider(store);
+  context.subscriptions.push(decorationProvider, vscode.window.registerFileDecorationProvider(decorationProvider));
+
+  // Every change to the lists is journaled for undo/redo
+  const projectHistory = ProjectHistory.getInstance();
+  projectHistory.attach(store, storagePath);
+  context.subscriptions.push(projectHistory);
+
+  // Project types are detected in the background; last session's results show until then
+  const projectTypeCache = ProjectTypeCache.getInstance();
+  projectTypeCache.restore(context.globalState);
+  context.subscriptions.push(projectTypeCache);
+  context.subscriptions.push(store.onDidChange(() => projectTypeCache.retain(store.getProjects().map(p => p.path))));
+
+  // Paths that no longer exist are flagged; folders may also move while the window is in the background
+  const projectHealth = ProjectHealth.getInstance();
+  projectHealth.restore(context.globalState);
+  const checkProjectHealth = () => projectHealth.check(store.getProjects().map(p => p.path));
+  checkProjectHealth();
+  context.subscriptions.push(store.onDidChange(checkProjectHealth));
+  context.subscriptions.push(vscode.window.onDidChangeWindowState(state => {
+    if (state.focused) {
+      checkProjectHealth();
+      // Commits and checkouts made outside VS Code show up in git: filters and the Git view
+      GitStatusCache.getInstance().refreshStale();
+    }
+  }));
+
+  // Commits, checkouts and staging in the open folders move HEAD or the index
+  const gitStateWatcher = vscode.workspace.createFileSystemWatcher("**/.git/{HEAD,index}", true, false, true);
+  gitStateWatcher.onDidChange(uri => GitStatusCache.getInstance().invalidate(path.dirname(path.dirname(uri.fsPath))));
+  context.subscriptions.push(gitStateWatcher);
 
   // Create four providers - regular, categorized, git, and notes
-  const allProjectsProvider = new ProjectProvider(context, "messProjectManagerTreeView", false);
-  const categorizedProvider = new ProjectProvider(context, "messProjectManagerCategories", true);
-  const gitProvider = new GitProjectProvider(context);
+  const usageTracker = new ProjectUsageTracker(context);
+  const allProjectsProvider = new ProjectProvider(context, store, usageTracker, "messProjectManagerTreeView", false);
+  const categorizedProvider = new ProjectProvider(context, store, usageTracker, "messProjectManagerCategories", true);
+  const gitProvider = new GitProjectProvider(context, store, usageTracker);
+  // Undoing or redoing a path change takes the project's usage, type and health data along
+  context.subscriptions.push(projectHistory.onDidMovePaths(moves => {
+    moves.forEach(([oldPath, newPath]) => allProjectsProvider.moveProjectData(oldPath, newPath));
+  }));
   const notesProvider = new NotesProvider(context);
+  const projectDiscovery = new ProjectDiscovery(context, store);
+  context.subscriptions.push(projectDiscovery);
+  const projectImporter = new ProjectImporter(context, store);
+  const projectBundle = new ProjectBundle(store, notesProvider);
+  const settingsSync = new SettingsSync(context, store, notesProvider);
+  context.subscriptions.push(settingsSync);
+
+  // Every way of opening a project goes through here so the open is recorded for frecency.
+  // Recording is awaited first: opening in the current window reloads the extension host.
+  const openProject = async (projectPath: string, newWindow: boolean) => {
+    if (projectHealth.isMissing(projectPath)) {
+      const choice = await vscode.window.showWarningMessage(
+        `⚠️ ${projectPath} no longer exists.`,
+        "Relocate..."
+      );
+      if (choice === "Relocate...") {
+        await relocateProject(projectPath);
+      }
+      return;
+    }
+    await usageTracker.recordOpen(projectPath);
+    await vscode.commands.executeCommand("vscode.openFolder", toProjectUri(projectPath), newWindow);
+  };
+  const projectSwitcher = new ProjectSwitcher(store, usageTracker, allProjectsProvider, openProject);
 
   // Register tree data providers with drag and drop support
-  vscode.window.createTreeView("messProjectManagerTreeView", {
+  const allProjectsView = vscode.window.createTreeView("messProjectManagerTreeView", {
     treeDataProvider: allProjectsProvider,
-    dragAndDropController: allProjectsProvider
+    dragAndDropController: allProjectsProvider,
+    canSelectMany: true
   });
   
-  vscode.window.createTreeView("messProjectManagerCategories", {
+  const categoriesView = vscode.window.createTreeView("messProjectManagerCategories", {
     treeDataProvider: categorizedProvider,
-    dragAndDropController: categorizedProvider
+    dragAndDropController: categorizedProvider,
+    canSelectMany: true
   });
   
-  vscode.window.createTreeView("messProjectManagerGit", {
+  const gitView = vscode.window.createTreeView("messProjectManagerGit", {
     treeDataProvider: gitProvider,
-    dragAndDropController: gitProvider
+    dragAndDropController: gitProvider,
+    canSelectMany: true
   });
   
   vscode.window.createTreeView("messProjectManagerNotes", {
     treeDataProvider: notesProvider
   });
 
+  const validateProjectQuery = (value: string) => {
+    const { errors } = parseProjectQuery(value);
+    return errors.length > 0 ? errors.join("; ") : null;
+  };
+
+  // Show the active search next to each project view's title
+  const projectViews = [allProjectsView, categoriesView, gitView];
+  const setSearchFilter = (query: string) => {
+    allProjectsProvider.setSearchFilter(query);
+    categorizedProvider.setSearchFilter(query);
+    gitProvider.setSearchFilter(query);
+    for (const view of projectViews) {
+      view.description = query ? `🔍 ${query}` : undefined;
+    }
+  };
+
+  // Project paths a context-menu command applies to: the whole multi-selection
+  // when the clicked item is part of it, otherwise just the clicked item
+  const getTargetProjectPaths = (projectItem?: ProjectItem, selectedItems?: ProjectItem[]): string[] => {
+    const items = selectedItems && projectItem && selectedItems.includes(projectItem)
+      ? selectedItems
+      : projectItem ? [projectItem] : [];
+    return items
+      .filter(item => (item.contextValue === "projectItem" || item.contextValue === "missingProjectItem") && item.fullPath)
+      .map(item => item.getFullPath());
+  };
+
+  // Input box check for a project path: absolute (or remote), existing, and
+  // not already listed. ignorePath is the project being edited, if any.
+  const validateProjectPath = (value: string, ignorePath?: string): string | null => {
+    const projectPath = value.trim();
+    if (!projectPath) {
+      return "Path cannot be empty";
+    }
+    if (!isRemotePath(projectPath)) {
+      const localPath = expandHome(projectPath);
+      if (!path.isAbsolute(localPath)) {
+        return "Enter an absolute path";
+      }
+      let stats: fs.Stats;
+      try {
+        stats = fs.statSync(localPath);
+      } catch (error) {
+        return `${localPath} does not exist`;
+      }
+      if (isWorkspaceFile(localPath) ? !stats.isFile() : !stats.isDirectory()) {
+        return isWorkspaceFile(localPath) ? "Not a workspace file" : "Not a folder";
+      }
+    }
+    const existing = store.findProjectByPath(isRemotePath(projectPath) ? projectPath : expandHome(projectPath));
+    if (existing && existing.path !== ignorePath) {
+      return `Already in your project list as "${existing.label}"`;
+    }
+    return null;
+  };
+
+  const pickCategory = async (placeHolder: string): Promise<{ label: string; id: string | undefined } | undefined> => {
+    const categories = categorizedProvider.getCategories();
+    return vscode.window.showQuickPick(
+      [
+        { label: "Uncategorized", id: undefined as string | undefined },
+        ...categories.map(c => ({ label: getCategoryPath(categories, c.id) || c.name, id: c.id as string | undefined }))
+      ],
+      { placeHolder }
+    );
+  };
+
   // Register all commands
   const saveCurrentLocationCommand = vscode.commands.registerCommand("messProjectManager.saveCurrentLocation", async () => {
     const activeEditor = vscode.window.activeTextEditor;
@@ -50,7 +204,10 @@ export async function activate(context: vscode.ExtensionContext) {
 
     let targetPath: string | undefined;
 
-    if (activeEditor) {
+    if (workspaceFolder && workspaceFolder.uri.scheme !== "file") {
+      // Remote window: keep the full vscode-remote:// URI so it reopens on the same host
+      targetPath = workspaceFolder.uri.toString();
+    } else if (activeEditor && activeEditor.document.uri.scheme === "file") {
       targetPath = path.dirname(activeEditor.document.uri.fsPath);
     } else if (workspaceFolder) {
       targetPath = workspaceFolder.uri.fsPath;
@@ -61,41 +218,176 @@ export async function activate(context: vscode.ExtensionContext) {
       return;
     }
 
-    const name = path.basename(targetPath);
-
-    // đọc config
-    const raw = fs.readFileSync(configFile, "utf-8");
-    const config = JSON.parse(raw);
-
-    if (!config.projects) config.projects = [];
-
-    config.projects.push({ label: name, path: targetPath, active: true });
+    const existing = store.findProjectByPath(targetPath);
+    if (existing) {
+      const action = await vscode.window.showInformationMessage(`ℹ️ ${targetPath} is already saved as "${existing.label}"`, "Show Details");
+      if (action === "Show Details") {
+        ProjectDetailsPanel.show(store, allProjectsProvider, usageTracker, existing.path);
+      }
+      return;
+    }
 
-    fs.writeFileSync(configFile, JSON.stringify(config, null, 2));
+    const name = await vscode.window.showInputBox({
+      prompt: `Project name for ${targetPath}`,
+      value: path.basename(toProjectUri(targetPath).path),
+      validateInput: value => value.trim() ? null : "Name cannot be empty"
+    });
+    if (!name) return;
 
-    vscode.window.showInformationMessage(`✅ Đã lưu ${name} vào projects.json`);
+    const category = await pickCategory("Select a category for this project");
+    if (!category) return;
 
-    allProjectsProvider.refresh();
-    categorizedProvider.refresh();
-    gitProvider.refresh();
+    if (store.addProject({ label: name.trim(), path: targetPath, active: true, ...(category.id ? { category: category.id } : {}) })) {
+      vscode.window.showInformationMessage(`✅ Đã lưu ${name.trim()} vào projects.json`);
+    }
   });
 
   const refreshProjectsCommand = vscode.commands.registerCommand("messProjectManager.refreshProjects", () => {
+    store.reload();
+    projectTypeCache.invalidateAll();
+    checkProjectHealth();
     allProjectsProvider.refresh();
     categorizedProvider.refresh();
     gitProvider.refresh();
   });
 
+  // 🌐 Add Remote Project Command
+  const addRemoteProjectCommand = vscode.commands.registerCommand("messProjectManager.addRemoteProject", async () => {
+    const remote = await promptRemoteDescriptor();
+    if (!remote) return;
+
+    const label = await vscode.window.showInputBox({
+      prompt: "Project name",
+      value: path.posix.basename(remote.path)
+    });
+    if (!label) return;
+
+    const projectPath = buildRemoteUri(remote).toString();
+    if (store.addProject({ label, path: projectPath, active: true, remote })) {
+      vscode.window.showInformationMessage(`✅ Added remote project "${label}"`);
+    } else if (store.getProject(projectPath)) {
+      vscode.window.showWarningMessage(`Project "${label}" already exists in your project list.`);
+    }
+  });
+
+  // 🗂️ Create Workspace from Projects Command - uses the tree multi-selection when invoked from a view
+  const createWorkspaceCommand = vscode.commands.registerCommand("messProjectManager.createWorkspaceFromProjects", async (projectItem?: ProjectItem, selectedItems?: ProjectItem[]) => {
+    const isFolderProject = (projectPath: string) => !isRemotePath(projectPath) && !isWorkspaceFile(projectPath);
+
+    let folderPaths = (selectedItems && selectedItems.length > 0 ? selectedItems : projectItem ? [projectItem] : [])
+      .filter(item => item.contextValue === "projectItem")
+      .map(item => item.getFullPath())
+      .filter(isFolderProject);
+
+    if (folderPaths.length < 2) {
+      const picked = await vscode.window.showQuickPick(
+        store.getProjects()
+          .filter(project => isFolderProject(project.path))
+          .map(project => ({
+            label: project.label,
+            description: project.path,
+            picked: folderPaths.includes(project.path),
+            projectPath: project.path
+          })),
+        { canPickMany: true, placeHolder: "Select the projects to include in the workspace" }
+      );
+      if (!picked || picked.length === 0) return;
+      folderPaths = picked.map(item => item.projectPath);
+    }
+
+    const target = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.file(path.join(path.dirname(folderPaths[0]), `workspace${WORKSPACE_EXTENSION}`)),
+      filters: { "Code Workspace": [WORKSPACE_EXTENSION.substring(1)] },
+      saveLabel: "Create Workspace"
+    });
+    if (!target) return;
+
+    try {
+      writeWorkspaceFile(target.fsPath, folderPaths.map(folderPath => ({
+        name: store.getProject(folderPath)?.label || path.basename(folderPath),
+        path: folderPath
+      })));
+    } catch (error) {
+      vscode.window.showErrorMessage(`❌ Failed to create workspace: ${error instanceof Error ? error.message : error}`);
+      return;
+    }
+
+    const label = path.basename(target.fsPath, WORKSPACE_EXTENSION);
+    store.addProject({ label, path: target.fsPath, active: true });
+
+    const action = await vscode.window.showInformationMessage(
+      `✅ Workspace "${label}" created with ${folderPaths.length} folder(s)`,
+      "Open in New Window"
+    );
+    if (action === "Open in New Window") {
+      await vscode.commands.executeCommand("vscode.openFolder", target, true);
+    }
+  });
+
+  // 🔭 Discover Projects Command
+  const discoverProjectsCommand = vscode.commands.registerCommand("messProjectManager.discoverProjects", async () => {
+    await projectDiscovery.discoverProjects();
+  });
+
+  // 📥 Import Projects Command
+  const importProjectsCommand = vscode.commands.registerCommand("messProjectManager.importProjects", async () => {
+    await projectImporter.importProjects();
+  });
+
+  // 📦 Project Bundle Commands
+  const exportBundleCommand = vscode.commands.registerCommand("messProjectManager.exportBundle", async () => {
+    await projectBundle.exportBundle();
+  });
+
+  const importBundleCommand = vscode.commands.registerCommand("messProjectManager.importBundle", async () => {
+    await projectBundle.importBundle();
+  });
+
+  // 🔄 Settings Sync Commands
+  const syncNowCommand = vscode.commands.registerCommand("messProjectManager.syncNow", async () => {
+    if (!settingsSync.isEnabled()) {
+      const action = await vscode.window.showInformationMessage(
+        "Project sync is turned off. Enable \"messProjectManager.sync.enabled\" to roam projects through Settings Sync.",
+        "Enable Sync"
+      );
+      if (action === "Enable Sync") {
+        // The configuration listener starts syncing
+        await vscode.workspace.getConfiguration("messProjectManager.sync").update("enabled", true, vscode.ConfigurationTarget.Global);
+      }
+      return;
+    }
+    await settingsSync.sync();
+    vscode.window.showInformationMessage("✅ Projects synced");
+  });
+
+  const showSyncLogCommand = vscode.commands.registerCommand("messProjectManager.showSyncLog", () => {
+    settingsSync.showConflictLog();
+  });
+
   const editProjectsConfigCommand = vscode.commands.registerCommand("messProjectManager.editProjectsConfig", async () => {
-    const doc = await vscode.workspace.openTextDocument(configFile);
+    const doc = await vscode.workspace.openTextDocument(store.projectsFile);
     await vscode.window.showTextDocument(doc);
   });
 
+  // 🔧 Fix Config Command - opens the file that failed to load where parsing stopped
+  const fixConfigCommand = vscode.commands.registerCommand("messProjectManager.fixConfig", async () => {
+    const doc = await vscode.workspace.openTextDocument(store.getLoadErrorFile() || store.projectsFile);
+    const editor = await vscode.window.showTextDocument(doc);
+    const offset = store.getLoadError()?.match(/at position (\d+)/);
+    if (offset) {
+      const position = doc.positionAt(parseInt(offset[1], 10));
+      editor.selection = new vscode.Selection(position, position);
+      editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.InCenter);
+    }
+  });
+
 
   // File Explorer Window Command - receives ProjectItem
   const openFileExplorerWindowCommand = vscode.commands.registerCommand("messProjectManager.openFileExplorerWindow", async (projectItem: ProjectItem) => {
-    const fullPath = projectItem.getFullPath();
-    if (fullPath) {
+    const fullPath = projectItem.getWorkingDirectory();
+    if (projectItem.isRemote()) {
+      vscode.window.showWarningMessage("Remote projects cannot be revealed in the local file explorer");
+    } else if (fullPath) {
       await vscode.env.openExternal(vscode.Uri.file(fullPath));
     } else {
       vscode.window.showWarningMessage("No path available for this item");
@@ -103,27 +395,32 @@ export async function activate(context: vscode.ExtensionContext) {
   });
   
   // New Window Command - receives ProjectItem
-  const openProjectNewWindowCommand = vscode.commands.registerCommand("messProjectManager.openProjectNewWindow", (projectItem: ProjectItem) => {
+  const openProjectNewWindowCommand = vscode.commands.registerCommand("messProjectManager.openProjectNewWindow", async (projectItem: ProjectItem) => {
     const fullPath = projectItem.getFullPath();
     if (fullPath) {
       // console.log("Opening in new window:", projectItem.label, "at path:", fullPath);
-      vscode.commands.executeCommand("vscode.openFolder", vscode.Uri.file(fullPath), true);
+      await openProject(fullPath, true);
     } else {
       vscode.window.showWarningMessage("No path available for this item");
     }
   });
 
   // Current Window Command - receives ProjectItem
-  const openProjectCurrentWindowCommand = vscode.commands.registerCommand("messProjectManager.openProjectCurrentWindow", (projectItem: ProjectItem) => {
+  const openProjectCurrentWindowCommand = vscode.commands.registerCommand("messProjectManager.openProjectCurrentWindow", async (projectItem: ProjectItem) => {
     const fullPath = projectItem.getFullPath();
     if (fullPath) {
       // console.log("Opening in current window:", projectItem.label, "at path:", fullPath);
-      vscode.commands.executeCommand("vscode.openFolder", vscode.Uri.file(fullPath), false);
+      await openProject(fullPath, false);
     } else {
       vscode.window.showWarningMessage("No path available for this item");
     }
   });
 
+  // 🔀 Switch Project Command
+  const switchProjectCommand = vscode.commands.registerCommand("messProjectManager.switchProject", async () => {
+    await projectSwitcher.show();
+  });
+
   // 🔔 Click Notification Command
   const showClickNotificationCommand = vscode.commands.registerCommand("messProjectManager.showClickNotification", (projectName: string) => {
     vscode.window.showInformationMessage(`Please click on the function in the menu on the right. (${projectName})`);
@@ -155,26 +452,52 @@ export async function activate(context: vscode.ExtensionContext) {
 
     if (!categoryName) return;
 
-    const categoryId = categoryName.toLowerCase().replace(/\s+/g, '-');
-    
-    const iconOptions = [
-      "briefcase", "home", "mortar-board", "code", "tools", 
-      "heart", "folder", "project", "rocket"
-    ];
-    
-    const selectedIcon = await vscode.window.showQuickPick(iconOptions, {
-      placeHolder: "Select an icon for this category"
-    });
+    const selectedIcon = await pickCodicon("Select an icon for this category");
 
     if (!selectedIcon) return;
 
-    categorizedProvider.addCategory({
-      id: categoryId,
+    const noColor = { label: "No Color", description: "Use the theme's default", id: undefined as string | undefined };
+    const selectedColor = await vscode.window.showQuickPick(
+      [
+        noColor,
+        ...CATEGORY_COLORS.map(color => ({
+          label: color.label,
+          description: color.id,
+          iconPath: new vscode.ThemeIcon("circle-filled", new vscode.ThemeColor(color.id)),
+          id: color.id as string | undefined
+        }))
+      ],
+      { placeHolder: "Select a color for this category's projects" }
+    );
+
+    if (!selectedColor) return;
+
+    // Nest under an existing category if the user picks one
+    let parentId: string | undefined;
+    const existingCategories = categorizedProvider.getCategories();
+    if (existingCategories.length > 0) {
+      const parent = await vscode.window.showQuickPick(
+        [
+          { label: "(Top level)", id: undefined as string | undefined },
+          ...existingCategories.map(c => ({ label: getCategoryPath(existingCategories, c.id) || c.name, id: c.id as string | undefined }))
+        ],
+        { placeHolder: "Select a parent category" }
+      );
+      if (!parent) return;
+      parentId = parent.id;
+    }
+
+    const added = categorizedProvider.addCategory({
+      id: createCategoryId(existingCategories),
       name: categoryName,
-      icon: selectedIcon
+      icon: selectedIcon,
+      ...(selectedColor.id ? { color: selectedColor.id } : {}),
+      parentId
     });
 
-    vscode.window.showInformationMessage(`✅ Category "${categoryName}" added successfully!`);
+    if (added) {
+      vscode.window.showInformationMessage(`✅ Category "${categoryName}" added successfully!`);
+    }
   });
 
   // 🏷️ Assign Project to Category Command
@@ -183,7 +506,7 @@ export async function activate(context: vscode.ExtensionContext) {
     
     const categoryOptions = [
       { label: "Uncategorized", id: undefined },
-      ...categories.map(c => ({ label: c.name, id: c.id }))
+      ...categories.map(c => ({ label: getCategoryPath(categories, c.id) || c.name, id: c.id }))
     ];
 
     const selected = await vscode.window.showQuickPick(categoryOptions, {
@@ -195,7 +518,6 @@ export async function activate(context: vscode.ExtensionContext) {
     const projectPath = projectItem.getFullPath();
     if (projectPath) {
       categorizedProvider.assignProjectToCategory(projectPath, selected.id);
-      allProjectsProvider.refresh(); // Also refresh the flat view
       vscode.window.showInformationMessage(`✅ Project assigned to ${selected.label}`);
     }
   });
@@ -209,7 +531,7 @@ export async function activate(context: vscode.ExtensionContext) {
       return;
     }
 
-    const categoryOptions = categories.map(c => ({ label: c.name, id: c.id }));
+    const categoryOptions = categories.map(c => ({ label: getCategoryPath(categories, c.id) || c.name, id: c.id }));
 
     const selected = await vscode.window.showQuickPick(categoryOptions, {
       placeHolder: "Select a category to remove"
@@ -217,28 +539,129 @@ export async function activate(context: vscode.ExtensionContext) {
 
     if (!selected) return;
 
+    const category = categories.find(c => c.id === selected.id);
+    const parentName = category?.parentId ? categories.find(c => c.id === category.parentId)?.name : undefined;
+    const hasSubcategories = getDescendantIds(categories, selected.id).length > 0;
+
+    if (!parentName && !hasSubcategories) {
+      const confirm = await vscode.window.showWarningMessage(
+        `Are you sure you want to remove the "${selected.label}" category? Projects in this category will become uncategorized.`,
+        "Remove",
+        "Cancel"
+      );
+
+      if (confirm === "Remove") {
+        if (categorizedProvider.removeCategory(selected.id, "uncategorize")) {
+          showUndoableMessage(`✅ Category "${selected.label}" removed`);
+        }
+      }
+      return;
+    }
+
+    // Nested category: ask what happens to its subcategories and projects
+    const moveUpLabel = parentName ? `Move Contents to "${parentName}"` : "Move Contents to Top Level";
     const confirm = await vscode.window.showWarningMessage(
-      `Are you sure you want to remove the "${selected.label}" category? Projects in this category will become uncategorized.`,
-      "Remove",
+      `Remove the "${selected.label}" category? Its subcategories and projects can move up one level, or be removed and uncategorized.`,
+      moveUpLabel,
+      "Uncategorize All",
       "Cancel"
     );
 
-    if (confirm === "Remove") {
-      categorizedProvider.removeCategory(selected.id);
-      allProjectsProvider.refresh(); // Also refresh the flat view
-      vscode.window.showInformationMessage(`✅ Category "${selected.label}" removed`);
+    if (confirm === moveUpLabel) {
+      if (categorizedProvider.removeCategory(selected.id, "reparent")) {
+        showUndoableMessage(`✅ Category "${selected.label}" removed`);
+      }
+    } else if (confirm === "Uncategorize All") {
+      if (categorizedProvider.removeCategory(selected.id, "uncategorize")) {
+        showUndoableMessage(`✅ Category "${selected.label}" and its subcategories removed`);
+      }
+    }
+  });
+
+  // The category a context menu was opened on, or one picked from the list
+  const resolveCategory = async (categoryItem: ProjectItem | undefined, placeHolder: string): Promise<ProjectCategory | undefined> => {
+    const categories = categorizedProvider.getCategories();
+    const clicked = categories.find(c => c.id === categoryItem?.category);
+    if (clicked) return clicked;
+    if (categories.length === 0) {
+      vscode.window.showInformationMessage("No categories yet");
+      return undefined;
+    }
+    const selected = await vscode.window.showQuickPick(
+      categories.map(c => ({ label: getCategoryPath(categories, c.id) || c.name, category: c })),
+      { placeHolder }
+    );
+    return selected?.category;
+  };
+
+  // ✏️ Rename Category Command
+  const renameCategoryCommand = vscode.commands.registerCommand("messProjectManager.renameCategory", async (categoryItem?: ProjectItem) => {
+    const category = await resolveCategory(categoryItem, "Select a category to rename");
+    if (!category) return;
+
+    const name = await vscode.window.showInputBox({
+      title: `Rename "${category.name}"`,
+      prompt: "New name of the category",
+      value: category.name,
+      validateInput: (value) => {
+        if (!value.trim()) return "Name is required";
+        const siblings = categorizedProvider.getCategories().filter(c => c.id !== category.id && c.parentId === category.parentId);
+        return siblings.some(c => c.name.toLowerCase() === value.trim().toLowerCase())
+          ? "A category with this name already exists here"
+          : null;
+      }
+    });
+    if (!name || name.trim() === category.name) return;
+
+    if (categorizedProvider.renameCategory(category.id, name.trim())) {
+      showUndoableMessage(`✅ Category renamed to "${name.trim()}"`);
+    }
+  });
+
+  // 🎨 Change Category Icon Command
+  const changeCategoryIconCommand = vscode.commands.registerCommand("messProjectManager.changeCategoryIcon", async (categoryItem?: ProjectItem) => {
+    const category = await resolveCategory(categoryItem, "Select a category to change the icon of");
+    if (!category) return;
+
+    const icon = await pickCodicon(`Select an icon for "${category.name}"`, category.icon);
+    if (!icon || icon === category.icon) return;
+
+    categorizedProvider.setCategoryIcon(category.id, icon);
+  });
+
+  // 🔀 Merge Category Command
+  const mergeCategoryCommand = vscode.commands.registerCommand("messProjectManager.mergeCategory", async (categoryItem?: ProjectItem) => {
+    const source = await resolveCategory(categoryItem, "Select a category to merge into another one");
+    if (!source) return;
+
+    // Merging into one of its own subcategories would leave that subcategory orphaned
+    const categories = categorizedProvider.getCategories();
+    const excluded = [source.id, ...getDescendantIds(categories, source.id)];
+    const targets = categories.filter(c => !excluded.includes(c.id));
+    if (targets.length === 0) {
+      vscode.window.showInformationMessage(`ℹ️ There is no other category to merge "${source.name}" into`);
+      return;
     }
+
+    const target = await vscode.window.showQuickPick(
+      targets.map(c => ({ label: getCategoryPath(categories, c.id) || c.name, id: c.id })),
+      { placeHolder: `Move the projects and subcategories of "${source.name}" into...` }
+    );
+    if (!target) return;
+
+    const moved = categorizedProvider.mergeCategory(source.id, target.id);
+    if (moved === undefined) return;
+    showUndoableMessage(`✅ "${source.name}" merged into "${target.label}" (${moved} project(s) moved)`);
   });
 
   // ⭐ Toggle Favorite Command
   const toggleFavoriteCommand = vscode.commands.registerCommand("messProjectManager.toggleFavorite", async (projectItem: any) => {
     const projectPath = projectItem.getFullPath();
     if (projectPath) {
-      categorizedProvider.toggleProjectFavorite(projectPath);
-      allProjectsProvider.refresh(); // Also refresh the flat view
-      
-      const isFavorite = projectItem.favorite;
-      vscode.window.showInformationMessage(
+      if (!categorizedProvider.toggleProjectFavorite(projectPath)) return;
+
+      const isFavorite = store.getProject(projectPath)?.favorite;
+      showUndoableMessage(
         isFavorite 
           ? `⭐ Added "${projectItem.label}" to favorites`
           : `Removed "${projectItem.label}" from favorites`
@@ -246,21 +669,377 @@ export async function activate(context: vscode.ExtensionContext) {
     }
   });
 
+  // 🏷️ Add Tag Command
+  const addTagCommand = vscode.commands.registerCommand("messProjectManager.addTag", async (projectItem?: ProjectItem, selectedItems?: ProjectItem[]) => {
+    const projectPaths = getTargetProjectPaths(projectItem, selectedItems);
+    if (projectPaths.length === 0) return;
+
+    const tag = await pickTag(categorizedProvider.getAllTags(), "Select a tag or type a new one");
+    if (!tag) return;
+
+    if (categorizedProvider.addTagsToProjects(projectPaths, [tag])) {
+      vscode.window.showInformationMessage(`🏷️ Tagged ${projectPaths.length} project(s) with "${tag}"`);
+    }
+  });
+
+  // 🏷️ Remove Tag Command
+  const removeTagCommand = vscode.commands.registerCommand("messProjectManager.removeTag", async (projectItem?: ProjectItem, selectedItems?: ProjectItem[]) => {
+    const projectPaths = getTargetProjectPaths(projectItem, selectedItems);
+    const tags = new Set<string>();
+    projectPaths.forEach(projectPath => (store.getProject(projectPath)?.tags || []).forEach(tag => tags.add(tag)));
+
+    if (tags.size === 0) {
+      vscode.window.showInformationMessage("The selected project(s) have no tags");
+      return;
+    }
+
+    const selected = await vscode.window.showQuickPick([...tags].sort(), {
+      canPickMany: true,
+      placeHolder: "Select the tags to remove"
+    });
+    if (!selected || selected.length === 0) return;
+
+    if (categorizedProvider.removeTagsFromProjects(projectPaths, selected)) {
+      vscode.window.showInformationMessage(`🏷️ Removed ${selected.length} tag(s)`);
+    }
+  });
+
+  // 🧩 Set Project Type Command
+  const setProjectTypeCommand = vscode.commands.registerCommand("messProjectManager.setProjectType", async (projectItem?: ProjectItem, selectedItems?: ProjectItem[]) => {
+    const projectPaths = getTargetProjectPaths(projectItem, selectedItems);
+    if (projectPaths.length === 0) {
+      vscode.window.showErrorMessage("⚠️ Please select a project to set its type");
+      return;
+    }
+
+    const currentTypes = new Set(projectPaths.map(p => store.getProject(p)?.type));
+    const types = [...new Set(getDetectionRules().map(rule => rule.type))].sort();
+    const selected = await vscode.window.showQuickPick(
+      [
+        { label: "$(sync) Auto-detect", type: undefined as string | undefined },
+        ...types.map(type => ({
+          label: type,
+          description: currentTypes.size === 1 && currentTypes.has(type) ? "current" : undefined,
+          type: type as string | undefined
+        }))
+      ],
+      { placeHolder: "Select a project type, or let it be detected" }
+    );
+    if (!selected) return;
+
+    categorizedProvider.setProjectType(projectPaths, selected.type);
+    vscode.window.showInformationMessage(
+      selected.type
+        ? `✅ Project type set to "${selected.type}"`
+        : "✅ Project type will be detected automatically"
+    );
+  });
+
+  // 🧬 Show Technology Profile Command
+  const showTechnologyProfileCommand = vscode.commands.registerCommand("messProjectManager.showTechnologyProfile", async (projectItem: ProjectItem) => {
+    if (!projectItem || !projectItem.fullPath) {
+      vscode.window.showErrorMessage("⚠️ Please select a project to inspect");
+      return;
+    }
+    if (projectItem.isRemote()) {
+      vscode.window.showWarningMessage("Technology profiles are only available for local projects");
+      return;
+    }
+    const uri = TechnologyProfileDocumentProvider.uriFor(projectItem.label, projectItem.fullPath);
+    await vscode.commands.executeCommand("markdown.showPreview", uri);
+  });
+
+  // ✏️ Rename Project Command
+  const renameProjectCommand = vscode.commands.registerCommand("messProjectManager.renameProject", async (projectItem?: ProjectItem, selectedItems?: ProjectItem[]) => {
+    const projectPaths = getTargetProjectPaths(projectItem, selectedItems);
+    if (projectPaths.length === 0) {
+      vscode.window.showErrorMessage("⚠️ Please select a project to rename");
+      return;
+    }
+
+    let renamed = 0;
+    for (const [index, projectPath] of projectPaths.entries()) {
+      const project = store.getProject(projectPath);
+      if (!project) continue;
+      const label = await vscode.window.showInputBox({
+        title: projectPaths.length > 1 ? `Rename Project (${index + 1}/${projectPaths.length})` : "Rename Project",
+        prompt: projectPath,
+        value: project.label,
+        validateInput: value => value.trim() ? null : "Name cannot be empty"
+      });
+      if (label === undefined) break;
+      if (label.trim() !== project.label && allProjectsProvider.updateProjectDetails(projectPath, { label: label.trim() })) {
+        renamed++;
+      }
+    }
+    if (renamed > 0) {
+      vscode.window.showInformationMessage(`✅ Renamed ${renamed} project(s)`);
+    }
+  });
+
+  // 📂 Change Project Path Command
+  const changeProjectPathCommand = vscode.commands.registerCommand("messProjectManager.changeProjectPath", async (projectItem?: ProjectItem, selectedItems?: ProjectItem[]) => {
+    const projectPaths = getTargetProjectPaths(projectItem, selectedItems);
+    if (projectPaths.length === 0) {
+      vscode.window.showErrorMessage("⚠️ Please select a project to change its path");
+      return;
+    }
+
+    for (const [index, projectPath] of projectPaths.entries()) {
+      const project = store.getProject(projectPath);
+      if (!project) continue;
+      const newPath = await vscode.window.showInputBox({
+        title: projectPaths.length > 1 ? `Change Path of "${project.label}" (${index + 1}/${projectPaths.length})` : `Change Path of "${project.label}"`,
+        prompt: "New folder, .code-workspace file or remote URI",
+        value: projectPath,
+        validateInput: value => validateProjectPath(value, projectPath)
+      });
+      if (newPath === undefined) break;
+      const resolved = isRemotePath(newPath.trim()) ? newPath.trim() : expandHome(newPath.trim());
+      if (resolved !== projectPath && allProjectsProvider.changeProjectPath(projectPath, resolved)) {
+        vscode.window.showInformationMessage(`✅ "${project.label}" now points to ${resolved}`);
+      }
+    }
+  });
+
+  // 🔌 Toggle Active Command
+  const toggleActiveCommand = vscode.commands.registerCommand("messProjectManager.toggleActive", (projectItem?: ProjectItem, selectedItems?: ProjectItem[]) => {
+    const projectPaths = getTargetProjectPaths(projectItem, selectedItems);
+    if (projectPaths.length === 0) {
+      vscode.window.showErrorMessage("⚠️ Please select a project to activate or deactivate");
+      return;
+    }
+
+    // A mixed selection follows the clicked project, so one toggle makes them all alike
+    const active = !store.getProject(projectPaths[0])?.active;
+    if (allProjectsProvider.setProjectsActive(projectPaths, active)) {
+      showUndoableMessage(`✅ ${active ? "Activated" : "Deactivated"} ${projectPaths.length} project(s)`);
+    }
+  });
+
+  // 📑 Duplicate Project Command
+  const duplicateProjectCommand = vscode.commands.registerCommand("messProjectManager.duplicateProject", async (projectItem?: ProjectItem, selectedItems?: ProjectItem[]) => {
+    const projectPaths = getTargetProjectPaths(projectItem, selectedItems);
+    if (projectPaths.length === 0) {
+      vscode.window.showErrorMessage("⚠️ Please select a project to duplicate");
+      return;
+    }
+
+    let duplicated = 0;
+    for (const projectPath of projectPaths) {
+      const project = store.getProject(projectPath);
+      if (!project) continue;
+      // Paths are unique, so the copy needs its own (e.g. another worktree or checkout)
+      const newPath = await vscode.window.showInputBox({
+        title: `Duplicate "${project.label}"`,
+        prompt: "Path of the copy - its tags, category and other details are copied",
+        value: projectPath,
+        validateInput: value => validateProjectPath(value)
+      });
+      if (newPath === undefined) break;
+      const label = await vscode.window.showInputBox({
+        title: `Duplicate "${project.label}"`,
+        prompt: "Name of the copy",
+        value: `${project.label} (copy)`,
+        validateInput: value => value.trim() ? null : "Name cannot be empty"
+      });
+      if (label === undefined) break;
+      const resolved = isRemotePath(newPath.trim()) ? newPath.trim() : expandHome(newPath.trim());
+      if (allProjectsProvider.duplicateProject(projectPath, resolved, label.trim())) {
+        duplicated++;
+      }
+    }
+    if (duplicated > 0) {
+      vscode.window.showInformationMessage(`✅ Duplicated ${duplicated} project(s)`);
+    }
+  });
+
+  // 🗑️ Remove Project Command
+  const removeProjectCommand = vscode.commands.registerCommand("messProjectManager.removeProject", async (projectItem?: ProjectItem, selectedItems?: ProjectItem[]) => {
+    const projectPaths = getTargetProjectPaths(projectItem, selectedItems);
+    const projects = projectPaths.map(p => store.getProject(p)).filter((p): p is NonNullable<typeof p> => !!p);
+    if (projects.length === 0) {
+      vscode.window.showErrorMessage("⚠️ Please select a project to remove");
+      return;
+    }
+
+    const confirm = await vscode.window.showWarningMessage(
+      projects.length === 1 ? `Remove "${projects[0].label}" from the project list?` : `Remove ${projects.length} projects from the project list?`,
+      { modal: true, detail: `Files on disk are not touched.\n\n${projects.map(p => `${p.label} - ${p.path}`).join("\n")}` },
+      "Remove"
+    );
+    if (confirm !== "Remove") return;
+
+    if (allProjectsProvider.removeProjects(projectPaths)) {
+      showUndoableMessage(`🗑️ Removed ${projects.length} project(s)`);
+    }
+  });
+
+  // 🔃 Sort Commands - one per view, since title bar buttons don't say which view they belong to
+  const changeSortMode = async (provider: ProjectProvider) => {
+    const current = provider.getSortMode();
+    const selected = await vscode.window.showQuickPick(
+      PROJECT_SORT_MODES.map(entry => ({
+        label: entry.mode === current ? `$(check) ${entry.label}` : entry.label,
+        description: entry.description,
+        mode: entry.mode
+      })),
+      { placeHolder: `Sort projects by... (currently ${getSortModeLabel(current)})` }
+    );
+    if (selected && selected.mode !== current) {
+      await provider.setSortMode(selected.mode);
+    }
+  };
+  const sortAllProjectsCommand = vscode.commands.registerCommand("messProjectManager.sortAllProjects", () => changeSortMode(allProjectsProvider));
+  const sortCategoriesCommand = vscode.commands.registerCommand("messProjectManager.sortCategories", () => changeSortMode(categorizedProvider));
+  const sortGitProjectsCommand = vscode.commands.registerCommand("messProjectManager.sortGitProjects", () => changeSortMode(gitProvider));
+
+  // ↩️ Undo / Redo Commands
+  const undoCommand = vscode.commands.registerCommand("messProjectManager.undo", (entryId?: unknown) => {
+    // The "Undo" button of a notification passes the change it belongs to
+    return projectHistory.undo(typeof entryId === "string" ? entryId : undefined);
+  });
+
+  const redoCommand = vscode.commands.registerCommand("messProjectManager.redo", () => projectHistory.redo());
+
+  // 📝 Project Details Command
+  const showProjectDetailsCommand = vscode.commands.registerCommand("messProjectManager.showProjectDetails", (projectItem: ProjectItem) => {
+    if (!projectItem || !projectItem.fullPath || !store.getProject(projectItem.fullPath)) {
+      vscode.window.showErrorMessage("⚠️ Please select a project to show details for");
+      return;
+    }
+    ProjectDetailsPanel.show(store, allProjectsProvider, usageTracker, projectItem.fullPath);
+  });
+
+  // 🧭 Relocate Project Command
+  const relocateProject = async (projectPath: string) => {
+    const project = store.getProject(projectPath);
+    if (!project) return;
+
+    const candidates = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: `🔍 Looking for "${project.label}"...`, cancellable: true },
+      (progress, token) => projectHealth.findRelocationCandidates(projectPath, token)
+    );
+
+    const browseItem = { label: "$(folder-opened) Browse...", description: "Pick the new location yourself", path: "" };
+    const selected = await vscode.window.showQuickPick(
+      [
+        ...candidates
+          .filter(candidate => !store.findProjectByPath(candidate.path))
+          .map(candidate => ({ label: path.basename(candidate.path), description: candidate.path, detail: candidate.reasons.join(", "), path: candidate.path })),
+        browseItem
+      ],
+      { placeHolder: candidates.length > 0 ? `Where did "${project.label}" move to?` : `No likely locations found for "${project.label}"` }
+    );
+    if (!selected) return;
+
+    let newPath = selected.path;
+    if (selected === browseItem) {
+      const isWorkspace = isWorkspaceFile(projectPath);
+      const picked = await vscode.window.showOpenDialog({
+        canSelectFolders: !isWorkspace,
+        canSelectFiles: isWorkspace,
+        canSelectMany: false,
+        filters: isWorkspace ? { "Workspace": [WORKSPACE_EXTENSION.slice(1)] } : undefined,
+        openLabel: "Relocate here"
+      });
+      if (!picked || picked.length === 0) return;
+      newPath = picked[0].fsPath;
+    }
+
+    const existing = store.findProjectByPath(newPath);
+    if (existing) {
+      vscode.window.showWarningMessage(`⚠️ ${newPath} is already in your project list as "${existing.label}"`);
+      return;
+    }
+    if (allProjectsProvider.changeProjectPath(projectPath, newPath)) {
+      vscode.window.showInformationMessage(`✅ "${project.label}" now points to ${newPath}`);
+    }
+  };
+
+  const relocateProjectCommand = vscode.commands.registerCommand("messProjectManager.relocateProject", async (projectItem: ProjectItem) => {
+    if (!projectItem || !projectItem.fullPath) {
+      vscode.window.showErrorMessage("⚠️ Please select a project to relocate");
+      return;
+    }
+    await relocateProject(projectItem.fullPath);
+  });
+
+  // 🧹 Remove All Missing Projects Command
+  const removeMissingProjectsCommand = vscode.commands.registerCommand("messProjectManager.removeMissingProjects", async () => {
+    await checkProjectHealth();
+    const missing = new Set(projectHealth.getMissing());
+    const missingProjects = store.getProjects().filter(p => missing.has(p.path));
+    if (missingProjects.length === 0) {
+      vscode.window.showInformationMessage("✅ Every project path exists");
+      return;
+    }
+
+    const confirm = await vscode.window.showWarningMessage(
+      `Remove ${missingProjects.length} missing project(s) from the list?`,
+      { modal: true, detail: missingProjects.map(p => `${p.label} - ${p.path}`).join("\n") },
+      "Remove"
+    );
+    if (confirm !== "Remove") return;
+
+    if (store.update(state => {
+      state.projects = state.projects.filter(p => !missing.has(p.path));
+    }, `Remove ${missingProjects.length} missing project(s)`)) {
+      showUndoableMessage(`🗑️ Removed ${missingProjects.length} missing project(s)`);
+    }
+  });
+
+  // ▶️ Run Package Script Command
+  const runPackageScriptCommand = vscode.commands.registerCommand("messProjectManager.runPackageScript", async (packageItem: PackageItem) => {
+    if (!(packageItem instanceof PackageItem)) {
+      vscode.window.showErrorMessage("⚠️ Please select a package of a monorepo project");
+      return;
+    }
+
+    const scripts = await getPackageScripts(packageItem.pkg);
+    if (scripts.length === 0) {
+      vscode.window.showInformationMessage(`ℹ️ "${packageItem.pkg.name}" has no scripts to run`);
+      return;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+      scripts.map(script => ({ label: script.name, description: script.command, script })),
+      { placeHolder: `Run a script in ${packageItem.pkg.name}` }
+    );
+    if (!selected) return;
+
+    const terminal = vscode.window.createTerminal({
+      name: `${packageItem.pkg.name}: ${selected.script.name}`,
+      cwd: packageItem.pkg.path
+    });
+    terminal.show();
+    terminal.sendText(selected.script.command);
+  });
+
+  // 🏷️ Toggle Group by Tag Command
+  const toggleGroupByTagCommand = vscode.commands.registerCommand("messProjectManager.toggleGroupByTag", async () => {
+    await categorizedProvider.toggleGroupByTag();
+    vscode.window.showInformationMessage(
+      categorizedProvider.getGroupByTag()
+        ? "🏷️ Grouping projects by tag"
+        : "📁 Grouping projects by category"
+    );
+  });
+
   // 🔍 Search Projects Command
   const searchProjectsCommand = vscode.commands.registerCommand("messProjectManager.searchProjects", async () => {
     const searchTerm = await vscode.window.showInputBox({
-      prompt: "Search projects by name or path",
-      placeHolder: "Enter search term...",
-      value: categorizedProvider.getSearchFilter()
+      prompt: "Search projects by name, path or tag, or filter with type:, cat:, tag:, fav:, active: and git:",
+      placeHolder: PROJECT_QUERY_HELP,
+      value: categorizedProvider.getSearchFilter(),
+      validateInput: validateProjectQuery
     });
 
     if (searchTerm !== undefined) {
-      allProjectsProvider.setSearchFilter(searchTerm);
-      categorizedProvider.setSearchFilter(searchTerm);
-      gitProvider.setSearchFilter(searchTerm);
+      setSearchFilter(searchTerm.trim());
       
-      if (searchTerm) {
-        vscode.window.showInformationMessage(`🔍 Filtering projects: "${searchTerm}"`);
+      if (searchTerm.trim()) {
+        vscode.window.showInformationMessage(`🔍 Filtering projects: "${searchTerm.trim()}"`);
       } else {
         vscode.window.showInformationMessage("🔍 Search filter cleared");
       }
@@ -269,12 +1048,84 @@ export async function activate(context: vscode.ExtensionContext) {
 
   // ❌ Clear Search Command
   const clearSearchCommand = vscode.commands.registerCommand("messProjectManager.clearSearch", () => {
-    allProjectsProvider.clearSearchFilter();
-    categorizedProvider.clearSearchFilter();
-    gitProvider.clearSearchFilter();
+    setSearchFilter("");
     vscode.window.showInformationMessage("🔍 Search filter cleared");
   });
 
+  // 💾 Save Search as Smart Folder Command
+  const saveSearchCommand = vscode.commands.registerCommand("messProjectManager.saveSearch", async () => {
+    const query = await vscode.window.showInputBox({
+      prompt: "Query for the smart folder",
+      placeHolder: PROJECT_QUERY_HELP,
+      value: categorizedProvider.getSearchFilter(),
+      validateInput: (value) => value.trim() ? validateProjectQuery(value) : "Query is required"
+    });
+    if (!query) return;
+
+    const name = await vscode.window.showInputBox({
+      prompt: "Name of the smart folder",
+      placeHolder: "e.g., Dirty work repos",
+      validateInput: (value) => value.trim() ? null : "Name is required"
+    });
+    if (!name) return;
+
+    const saved = categorizedProvider.addSavedSearch({
+      id: `search-${Date.now().toString(36)}`,
+      name: name.trim(),
+      query: query.trim()
+    });
+    if (saved) {
+      vscode.window.showInformationMessage(`✅ Saved search "${name.trim()}" added to Categories`);
+    }
+  });
+
+  // ✏️ Edit Saved Search Command
+  const editSavedSearchCommand = vscode.commands.registerCommand("messProjectManager.editSavedSearch", async (searchItem: ProjectItem) => {
+    const search = categorizedProvider.getSavedSearches().find(s => s.id === searchItem?.category);
+    if (!search) {
+      vscode.window.showErrorMessage("⚠️ Please select a saved search to edit");
+      return;
+    }
+
+    const name = await vscode.window.showInputBox({
+      prompt: "Name of the smart folder",
+      value: search.name,
+      validateInput: (value) => value.trim() ? null : "Name is required"
+    });
+    if (!name) return;
+
+    const query = await vscode.window.showInputBox({
+      prompt: "Query for the smart folder",
+      placeHolder: PROJECT_QUERY_HELP,
+      value: search.query,
+      validateInput: (value) => value.trim() ? validateProjectQuery(value) : "Query is required"
+    });
+    if (!query) return;
+
+    if (categorizedProvider.updateSavedSearch(search.id, { name: name.trim(), query: query.trim() })) {
+      vscode.window.showInformationMessage(`✅ Saved search "${name.trim()}" updated`);
+    }
+  });
+
+  // 🗑️ Delete Saved Search Command
+  const deleteSavedSearchCommand = vscode.commands.registerCommand("messProjectManager.deleteSavedSearch", async (searchItem: ProjectItem) => {
+    const search = categorizedProvider.getSavedSearches().find(s => s.id === searchItem?.category);
+    if (!search) {
+      vscode.window.showErrorMessage("⚠️ Please select a saved search to delete");
+      return;
+    }
+
+    const confirm = await vscode.window.showWarningMessage(
+      `Delete saved search "${search.name}"? Its projects are not affected.`,
+      { modal: true },
+      "Delete"
+    );
+    if (confirm !== "Delete") return;
+
+    categorizedProvider.removeSavedSearch(search.id);
+    vscode.window.showInformationMessage(`✅ Saved search "${search.name}" deleted`);
+  });
+
   // 🔄 Refresh Git Projects Command
   const refreshGitProjectsCommand = vscode.commands.registerCommand("messProjectManager.refreshGitProjects", () => {
     gitProvider.refresh();
@@ -309,7 +1160,7 @@ export async function activate(context: vscode.ExtensionContext) {
 
   // 🖥️ Terminal Menu Command
   const openTerminalMenuCommand = vscode.commands.registerCommand("messProjectManager.openTerminalMenu", async (projectItem: ProjectItem) => {
-    const projectPath = projectItem.getFullPath();
+    const projectPath = projectItem.getWorkingDirectory();
     if (projectPath) {
       await terminalProvider.showTerminalSelectionMenu(projectPath, projectItem.label);
     } else {
@@ -319,7 +1170,7 @@ export async function activate(context: vscode.ExtensionContext) {
 
   // 🖥️ Integrated Terminal Command
   const openIntegratedTerminalCommand = vscode.commands.registerCommand("messProjectManager.openIntegratedTerminal", async (projectItem: ProjectItem) => {
-    const projectPath = projectItem.getFullPath();
+    const projectPath = projectItem.getWorkingDirectory();
     if (projectPath) {
       await terminalProvider.openIntegratedTerminal(projectPath, projectItem.label);
     } else {
@@ -329,7 +1180,7 @@ export async function activate(context: vscode.ExtensionContext) {
 
   // 🔷 Command Prompt Command
   const openCommandPromptCommand = vscode.commands.registerCommand("messProjectManager.openCommandPrompt", async (projectItem: ProjectItem) => {
-    const projectPath = projectItem.getFullPath();
+    const projectPath = projectItem.getWorkingDirectory();
     if (projectPath) {
       await terminalProvider.openSpecificTerminal({
         type: 'cmd',
@@ -344,7 +1195,7 @@ export async function activate(context: vscode.ExtensionContext) {
 
   // 🔷 Command Prompt (Admin) Command
   const openCommandPromptAdminCommand = vscode.commands.registerCommand("messProjectManager.openCommandPromptAdmin", async (projectItem: ProjectItem) => {
-    const projectPath = projectItem.getFullPath();
+    const projectPath = projectItem.getWorkingDirectory();
     if (projectPath) {
       await terminalProvider.openSpecificTerminal({
         type: 'cmd',
@@ -359,7 +1210,7 @@ export async function activate(context: vscode.ExtensionContext) {
 
   // 💙 PowerShell Command
   const openPowerShellCommand = vscode.commands.registerCommand("messProjectManager.openPowerShell", async (projectItem: ProjectItem) => {
-    const projectPath = projectItem.getFullPath();
+    const projectPath = projectItem.getWorkingDirectory();
     if (projectPath) {
       await terminalProvider.openSpecificTerminal({
         type: 'powershell',
@@ -374,7 +1225,7 @@ export async function activate(context: vscode.ExtensionContext) {
 
   // 💙 PowerShell (Admin) Command
   const openPowerShellAdminCommand = vscode.commands.registerCommand("messProjectManager.openPowerShellAdmin", async (projectItem: ProjectItem) => {
-    const projectPath = projectItem.getFullPath();
+    const projectPath = projectItem.getWorkingDirectory();
     if (projectPath) {
       await terminalProvider.openSpecificTerminal({
         type: 'powershell',
@@ -389,7 +1240,7 @@ export async function activate(context: vscode.ExtensionContext) {
 
   // 🟢 Git Bash Command
   const openGitBashCommand = vscode.commands.registerCommand("messProjectManager.openGitBash", async (projectItem: ProjectItem) => {
-    const projectPath = projectItem.getFullPath();
+    const projectPath = projectItem.getWorkingDirectory();
     if (projectPath) {
       await terminalProvider.openSpecificTerminal({
         type: 'git-bash',
@@ -485,22 +1336,65 @@ export async function activate(context: vscode.ExtensionContext) {
   });
 
 
+  // Schemas and extra checks for hand-editing projects.json and categories.json
+  const configSchemaProvider = new ConfigSchemaProvider(store);
+  const configDiagnostics = new ConfigDiagnostics(store);
+
   // Register all commands to context
   context.subscriptions.push(
     saveCurrentLocationCommand,
     refreshProjectsCommand,
     editProjectsConfigCommand,
+    fixConfigCommand,
+    discoverProjectsCommand,
+    importProjectsCommand,
+    exportBundleCommand,
+    importBundleCommand,
+    syncNowCommand,
+    showSyncLogCommand,
+    addRemoteProjectCommand,
+    createWorkspaceCommand,
     openFileExplorerWindowCommand,
     openProjectNewWindowCommand,
     openProjectCurrentWindowCommand,
+    switchProjectCommand,
     showClickNotificationCommand,
     toggleShowInactiveCommand,
     addCategoryCommand,
     assignCategoryCommand,
     removeCategoryCommand,
+    renameCategoryCommand,
+    changeCategoryIconCommand,
+    mergeCategoryCommand,
     toggleFavoriteCommand,
+    addTagCommand,
+    removeTagCommand,
+    toggleGroupByTagCommand,
+    setProjectTypeCommand,
+    showTechnologyProfileCommand,
+    showProjectDetailsCommand,
+    sortAllProjectsCommand,
+    sortCategoriesCommand,
+    sortGitProjectsCommand,
+    undoCommand,
+    redoCommand,
+    renameProjectCommand,
+    changeProjectPathCommand,
+    toggleActiveCommand,
+    duplicateProjectCommand,
+    removeProjectCommand,
+    runPackageScriptCommand,
+    relocateProjectCommand,
+    removeMissingProjectsCommand,
+    vscode.workspace.registerTextDocumentContentProvider(PROFILE_SCHEME, new TechnologyProfileDocumentProvider()),
+    configSchemaProvider,
+    vscode.workspace.registerTextDocumentContentProvider(SCHEMA_SCHEME, configSchemaProvider),
+    configDiagnostics,
     searchProjectsCommand,
     clearSearchCommand,
+    saveSearchCommand,
+    editSavedSearchCommand,
+    deleteSavedSearchCommand,
     refreshGitProjectsCommand,
     cloneRepositoryCommand,
     pullRepositoryCommand,
@@ -522,34 +1416,31 @@ export async function activate(context: vscode.ExtensionContext) {
     deleteSheetCommand,
   );
 
-  // 🔥 Watch file thay đổi -> refresh tree
-  const watcher = vscode.workspace.createFileSystemWatcher(configFile);
-  watcher.onDidChange(() => {
-    allProjectsProvider.refresh();
-    categorizedProvider.refresh();
-    gitProvider.refresh();
-  });
-  watcher.onDidCreate(() => {
-    allProjectsProvider.refresh();
-    categorizedProvider.refresh();
-    gitProvider.refresh();
-  });
-  watcher.onDidDelete(() => {
-    allProjectsProvider.refresh();
-    categorizedProvider.refresh();
-    gitProvider.refresh();
-  });
+  // 🔥 Watch file thay đổi -> reload store, providers refresh through its change event
+  const watcher = vscode.workspace.createFileSystemWatcher(
+    new vscode.RelativePattern(context.globalStorageUri, "{projects,categories}.json")
+  );
+  watcher.onDidChange(() => store.reload());
+  watcher.onDidCreate(() => store.reload());
+  watcher.onDidDelete(() => store.reload());
   context.subscriptions.push(watcher);
   
   // Watch for file saves and refresh tree
   const onSaveDisposable = vscode.workspace.onDidSaveTextDocument(doc => {
-    if (doc.uri.fsPath === configFile) {
-      allProjectsProvider.refresh();
-      categorizedProvider.refresh();
+    if (doc.uri.fsPath === store.projectsFile || doc.uri.fsPath === store.categoriesFile) {
+      store.reload();
     }
   });
   
   context.subscriptions.push(onSaveDisposable);
+
+  // New or edited detection rules change icons in every view
+  context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(e => {
+    if (e.affectsConfiguration("messProjectManager.detectionRules")) {
+      resetDetectionRules();
+      projectTypeCache.invalidateAll();
+    }
+  }));
 }
 
 export function deactivate() {}
\ No newline at end of file
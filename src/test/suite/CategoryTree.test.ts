@@ -0,0 +1,22 @@
+import * as assert from "assert";
+import { getChildCategories, getEffectiveCategory } from "../../CategoryTree";
+import { ProjectCategory } from "../../types";
+
+const categories: ProjectCategory[] = [
+  { id: "work", name: "Work" },
+  { id: "client", name: "Client", parentId: "work" },
+  { id: "stray", name: "Stray", parentId: "deleted" }
+];
+
+suite("CategoryTree", () => {
+  test("projects of unknown categories are listed as uncategorized", () => {
+    assert.strictEqual(getEffectiveCategory(categories, "client"), "client");
+    assert.strictEqual(getEffectiveCategory(categories, "deleted"), undefined);
+    assert.strictEqual(getEffectiveCategory(categories, undefined), undefined);
+  });
+
+  test("categories of an unknown parent are shown at the top level", () => {
+    assert.deepStrictEqual(getChildCategories(categories, undefined).map(c => c.id), ["work", "stray"]);
+    assert.deepStrictEqual(getChildCategories(categories, "work").map(c => c.id), ["client"]);
+  });
+});
@@ -0,0 +1,28 @@
+import * as assert from "assert";
+import { globToRegExp } from "../../Glob";
+
+suite("Glob", () => {
+  test("* and ? stay within one folder", () => {
+    assert.ok(globToRegExp("*.ts").test("extension.ts"));
+    assert.ok(!globToRegExp("*.ts").test("src/extension.ts"));
+    assert.ok(globToRegExp("file?.txt").test("file1.txt"));
+    assert.ok(!globToRegExp("file?.txt").test("file/.txt"));
+  });
+
+  test("** spans folders", () => {
+    assert.ok(globToRegExp("**/node_modules").test("node_modules"));
+    assert.ok(globToRegExp("**/node_modules").test("a/b/node_modules"));
+    assert.ok(globToRegExp("src/**").test("src/a/b.ts"));
+    assert.ok(!globToRegExp("src/**").test("lib/a.ts"));
+  });
+
+  test("escapes regular expression characters", () => {
+    assert.ok(globToRegExp("a.b+(c)").test("a.b+(c)"));
+    assert.ok(!globToRegExp("a.b").test("axb"));
+  });
+
+  test("matches the whole name", () => {
+    assert.ok(!globToRegExp("dist").test("distribution"));
+    assert.ok(!globToRegExp("dist").test("old-dist"));
+  });
+});
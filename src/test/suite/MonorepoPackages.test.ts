@@ -0,0 +1,93 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { detectMonorepoPackages } from "../../MonorepoPackages";
+
+// Builds a folder tree from { "relative/path": "content" }
+function createTree(files: { [relativePath: string]: string }): string {
+  const rootPath = fs.mkdtempSync(path.join(os.tmpdir(), "mess-monorepo-"));
+  Object.entries(files).forEach(([relativePath, content]) => {
+    const filePath = path.join(rootPath, ...relativePath.split("/"));
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  });
+  return rootPath;
+}
+
+async function detect(files: { [relativePath: string]: string }): Promise<{ name: string; path: string; manager: string }[]> {
+  const rootPath = createTree(files);
+  try {
+    return (await detectMonorepoPackages(rootPath))
+      .map(pkg => ({ name: pkg.name, path: path.relative(rootPath, pkg.path).split(path.sep).join("/"), manager: pkg.manager }))
+      .sort((a, b) => a.path.localeCompare(b.path));
+  } finally {
+    fs.rmSync(rootPath, { recursive: true, force: true });
+  }
+}
+
+suite("MonorepoPackages", () => {
+  test("npm workspaces, with exclusions", async () => {
+    const packages = await detect({
+      "package.json": JSON.stringify({ workspaces: ["packages/*", "!packages/legacy"] }),
+      "packages/api/package.json": JSON.stringify({ name: "@shop/api" }),
+      "packages/web/package.json": JSON.stringify({ name: "@shop/web" }),
+      "packages/legacy/package.json": JSON.stringify({ name: "legacy" }),
+      "packages/docs/README.md": "no manifest"
+    });
+    assert.deepStrictEqual(packages, [
+      { name: "@shop/api", path: "packages/api", manager: "npm" },
+      { name: "@shop/web", path: "packages/web", manager: "npm" }
+    ]);
+  });
+
+  test("pnpm-workspace.yaml", async () => {
+    const packages = await detect({
+      "pnpm-workspace.yaml": "packages:\n  - 'apps/*'   # apps\n  - \"tools/cli\"\ncatalog:\n  - ignored/*\n",
+      "apps/site/package.json": JSON.stringify({ name: "site" }),
+      "tools/cli/package.json": JSON.stringify({ name: "cli" }),
+      "ignored/x/package.json": JSON.stringify({ name: "x" })
+    });
+    assert.deepStrictEqual(packages, [
+      { name: "site", path: "apps/site", manager: "pnpm" },
+      { name: "cli", path: "tools/cli", manager: "pnpm" }
+    ]);
+  });
+
+  test("yarn workspaces object form and Nx project.json", async () => {
+    const packages = await detect({
+      "package.json": JSON.stringify({ workspaces: { packages: ["libs/*"] } }),
+      "yarn.lock": "",
+      "libs/ui/project.json": JSON.stringify({ name: "ui" })
+    });
+    assert.deepStrictEqual(packages, [{ name: "ui", path: "libs/ui", manager: "yarn" }]);
+  });
+
+  test("Cargo workspace members", async () => {
+    const packages = await detect({
+      "Cargo.toml": "[workspace]\nmembers = [\n  \"crates/*\",\n  'cli',\n]\n\n[profile.release]\nlto = true\n",
+      "crates/core/Cargo.toml": "[package]\nname = \"shop-core\"\nversion = \"0.1.0\"\n",
+      "cli/Cargo.toml": "[package]\nname = \"shop-cli\"\n"
+    });
+    assert.deepStrictEqual(packages, [
+      { name: "shop-cli", path: "cli", manager: "cargo" },
+      { name: "shop-core", path: "crates/core", manager: "cargo" }
+    ]);
+  });
+
+  test("go.work use block", async () => {
+    const packages = await detect({
+      "go.work": "go 1.22\n\nuse (\n  ./api // service\n  ./worker\n)\n",
+      "api/go.mod": "module example.com/api\n\ngo 1.22\n",
+      "worker/go.mod": "module example.com/worker\n"
+    });
+    assert.deepStrictEqual(packages, [
+      { name: "example.com/api", path: "api", manager: "go" },
+      { name: "example.com/worker", path: "worker", manager: "go" }
+    ]);
+  });
+
+  test("ordinary projects have no packages", async () => {
+    assert.deepStrictEqual(await detect({ "package.json": JSON.stringify({ name: "app" }) }), []);
+  });
+});
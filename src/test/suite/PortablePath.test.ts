@@ -0,0 +1,44 @@
+import * as assert from "assert";
+import * as path from "path";
+import { fromPortablePath, isInside, PathVariables, toPortablePath } from "../../PortablePath";
+
+const home = path.resolve("/home/me");
+const root = path.join(home, "code");
+const variables: PathVariables = [["home", home], ["root", root]];
+
+suite("PortablePath", () => {
+  test("uses the most specific folder", () => {
+    assert.strictEqual(toPortablePath(path.join(root, "shop", "web"), variables), "${root}/shop/web");
+    assert.strictEqual(toPortablePath(path.join(home, "notes"), variables), "${home}/notes");
+    assert.strictEqual(toPortablePath(root, variables), "${root}");
+  });
+
+  test("keeps paths outside every folder and remote paths as they are", () => {
+    const elsewhere = path.resolve("/srv/app");
+    assert.strictEqual(toPortablePath(elsewhere, variables), elsewhere);
+    assert.strictEqual(toPortablePath(`${home}-old`, variables), `${home}-old`);
+    const remote = "vscode-remote://ssh-remote+box/home/me/app";
+    assert.strictEqual(toPortablePath(remote, variables), remote);
+  });
+
+  test("expands with this machine's folders", () => {
+    const otherRoot = path.resolve("/Users/me/src");
+    assert.strictEqual(fromPortablePath("${root}/shop/web", [["root", otherRoot]]), path.join(otherRoot, "shop", "web"));
+    assert.strictEqual(fromPortablePath("${root}", [["root", otherRoot]]), otherRoot);
+  });
+
+  test("returns undefined for variables not defined here", () => {
+    assert.strictEqual(fromPortablePath("${work}/shop", variables), undefined);
+  });
+
+  test("leaves plain paths alone", () => {
+    assert.strictEqual(fromPortablePath("/srv/app", variables), "/srv/app");
+  });
+
+  test("isInside only counts paths strictly below the folder", () => {
+    assert.ok(isInside(root, path.join(root, "shop")));
+    assert.ok(!isInside(root, root));
+    assert.ok(!isInside(root, path.join(root, "..", "other")));
+    assert.ok(!isInside(root, `${root}-old`));
+  });
+});
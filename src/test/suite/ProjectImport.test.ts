@@ -0,0 +1,101 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as v8 from "v8";
+import { parseAlefragnaniProjects, parsePathList, parseUriList, readGitHubDesktopRepositories } from "../../ProjectImport";
+
+// A LevelDB write-ahead log holding one write batch of puts (value) and deletions (undefined)
+function writeLevelDbLog(file: string, sequence: number, writes: [string, Buffer | undefined][]): void {
+  const varint = (n: number) => n < 0x80 ? [n] : [(n & 0x7f) | 0x80, n >> 7];
+  const header = Buffer.alloc(12);
+  header.writeUInt32LE(sequence, 0);
+  header.writeUInt32LE(writes.length, 8);
+  const batch = Buffer.concat([header, ...writes.map(([key, value]) => Buffer.concat([
+    Buffer.from([value ? 1 : 0, ...varint(key.length)]),
+    Buffer.from(key),
+    ...(value ? [Buffer.from(varint(value.length)), value] : [])
+  ]))]);
+  const record = Buffer.alloc(7);
+  record.writeUInt16LE(batch.length, 4);
+  record[6] = 1;
+  fs.writeFileSync(file, Buffer.concat([record, batch]));
+}
+
+suite("ProjectImport", () => {
+  suite("parseAlefragnaniProjects", () => {
+    test("reads names, tags and home-relative paths", () => {
+      const candidates = parseAlefragnaniProjects(JSON.stringify([
+        { name: "Shop", rootPath: "$home/code/shop", tags: ["work", 3], enabled: false },
+        { name: "", rootPath: "/srv/api" },
+        { name: "Broken" },
+        null
+      ]));
+      assert.deepStrictEqual(candidates, [
+        { label: "Shop", path: path.join(os.homedir(), "code", "shop"), tags: ["work"] },
+        { label: "api", path: "/srv/api", tags: undefined }
+      ]);
+    });
+
+    test("rejects anything but a list", () => {
+      assert.throws(() => parseAlefragnaniProjects("{}"), /expected a list of projects/);
+      assert.throws(() => parseAlefragnaniProjects("not json"));
+    });
+  });
+
+  suite("parsePathList", () => {
+    test("skips blank lines and comments and strips quotes", () => {
+      const candidates = parsePathList("# projects\n/srv/api\r\n\n  \"/srv/web/\"  \n~/notes\nvscode-remote://ssh-remote+box/home/me/app\n");
+      assert.deepStrictEqual(candidates, [
+        { label: "api", path: "/srv/api" },
+        { label: "web", path: "/srv/web/" },
+        { label: "notes", path: path.join(os.homedir(), "notes") },
+        { label: "app", path: "vscode-remote://ssh-remote+box/home/me/app" }
+      ]);
+    });
+  });
+
+  suite("parseUriList", () => {
+    test("keeps file and remote URIs only", () => {
+      const candidates = parseUriList("# dropped\r\nfile:///srv/api\r\nhttps://example.com/repo\r\nvscode-remote://ssh-remote%2Bbox/home/me/app\r\n");
+      assert.strictEqual(candidates.length, 2);
+      assert.deepStrictEqual(candidates[0], { label: "api", path: vscode.Uri.parse("file:///srv/api").fsPath });
+      assert.strictEqual(candidates[1].label, "app");
+      assert.ok(candidates[1].path.startsWith("vscode-remote://"));
+    });
+  });
+
+  suite("readGitHubDesktopRepositories", () => {
+    test("lists live repositories that still exist", async () => {
+      const root = fs.mkdtempSync(path.join(os.tmpdir(), "mess-desktop-"));
+      try {
+        const database = path.join(root, "db");
+        fs.mkdirSync(database);
+        fs.mkdirSync(path.join(root, "shop"));
+        fs.mkdirSync(path.join(root, "api"));
+        fs.mkdirSync(path.join(root, "web"));
+        const repository = (repositoryPath: string, extra: object) =>
+          v8.serialize({ id: 1, path: path.join(root, repositoryPath), gitHubRepositoryID: null, missing: false, ...extra });
+
+        writeLevelDbLog(path.join(database, "000003.log"), 1, [
+          ["r1", repository("shop", { gitHubRepositoryID: 42 })],
+          ["r2", repository("api", { alias: "API" })],
+          ["r3", repository("gone", {})],
+          ["r4", repository("api", { missing: true })],
+          ["r5", repository("web", {})],
+          ["t1", v8.serialize({ path: path.join(root, "api"), name: "not a repository" })]
+        ]);
+        writeLevelDbLog(path.join(database, "000005.log"), 10, [["r5", undefined]]);
+
+        const repositories = await readGitHubDesktopRepositories(database);
+        assert.deepStrictEqual(repositories.sort((a, b) => a.label.localeCompare(b.label)), [
+          { label: "API", path: path.join(root, "api") },
+          { label: "shop", path: path.join(root, "shop") }
+        ]);
+      } finally {
+        fs.rmSync(root, { recursive: true, force: true });
+      }
+    });
+  });
+});
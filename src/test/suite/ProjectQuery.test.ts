@@ -0,0 +1,111 @@
+import * as assert from "assert";
+import { matchesProjectQuery, parseProjectQuery, ProjectQueryContext, queryUsesField } from "../../ProjectQuery";
+import { GitInfo } from "../../GitStatus";
+import { ProjectEntry } from "../../types";
+
+const clean: GitInfo = { branch: "main", hasChanges: false, ahead: 0, behind: 0 };
+
+function contextWith(gitInfo: GitInfo | null | undefined, type: string = "react"): ProjectQueryContext {
+  return {
+    getProjectType: () => type,
+    getCategoryPath: project => project.category === "web" ? "Work/Web" : project.category,
+    getGitInfo: () => gitInfo
+  };
+}
+
+const project: ProjectEntry = {
+  label: "Shop Frontend",
+  path: "/home/me/code/shop-frontend",
+  active: true,
+  favorite: true,
+  category: "web",
+  tags: ["API", "client"]
+};
+
+function matches(query: string, context: ProjectQueryContext = contextWith(clean)): boolean {
+  return matchesProjectQuery(parseProjectQuery(query), project, context);
+}
+
+suite("ProjectQuery", () => {
+  suite("parseProjectQuery", () => {
+    test("splits fields, negations and quoted phrases", () => {
+      const query = parseProjectQuery('Type:React -cat:work "exact phrase" api');
+      assert.deepStrictEqual(query.errors, []);
+      assert.deepStrictEqual(query.terms, [
+        { negated: false, field: "type", value: "react" },
+        { negated: true, field: "cat", value: "work" },
+        { negated: false, field: undefined, value: "exact phrase" },
+        { negated: false, field: undefined, value: "api" }
+      ]);
+    });
+
+    test("maps aliases to their field", () => {
+      const query = parseProjectQuery("category:work favorite:yes");
+      assert.deepStrictEqual(query.terms.map(term => term.field), ["cat", "fav"]);
+    });
+
+    test("keeps words with an unknown prefix as plain text", () => {
+      const query = parseProjectQuery("https://github.com/me C:\\code constructor:x");
+      assert.deepStrictEqual(query.errors, []);
+      assert.deepStrictEqual(query.terms.map(term => term.field), [undefined, undefined, undefined]);
+      assert.strictEqual(query.terms[0].value, "https://github.com/me");
+    });
+
+    test("reports invalid values and leaves them out", () => {
+      const query = parseProjectQuery("fav:maybe git:sideways type: active:constructor -");
+      assert.strictEqual(query.errors.length, 5);
+      assert.deepStrictEqual(query.terms, []);
+    });
+
+    test("reports a missing closing quote", () => {
+      const query = parseProjectQuery('tag:api "open phrase');
+      assert.strictEqual(query.errors.length, 1);
+      assert.strictEqual(query.terms.length, 1);
+    });
+
+    test("knows which fields a query uses", () => {
+      assert.ok(queryUsesField(parseProjectQuery("-git:dirty"), "git"));
+      assert.ok(!queryUsesField(parseProjectQuery("git"), "git"));
+    });
+  });
+
+  suite("matchesProjectQuery", () => {
+    test("matches free text against label, path and tags", () => {
+      assert.ok(matches("shop"));
+      assert.ok(matches("code/shop"));
+      assert.ok(matches("cli"));
+      assert.ok(!matches("backend"));
+      assert.ok(matches("-backend"));
+    });
+
+    test("matches fields", () => {
+      assert.ok(matches("type:react"));
+      assert.ok(!matches("type:vue"));
+      assert.ok(matches("cat:web"));
+      assert.ok(matches("cat:work"));
+      assert.ok(matches("tag:api"));
+      assert.ok(!matches("tag:cli"));
+      assert.ok(matches("fav:true active:yes"));
+      assert.ok(!matches("fav:no"));
+    });
+
+    test("combines terms with AND", () => {
+      assert.ok(matches("type:react tag:api shop"));
+      assert.ok(!matches("type:react tag:api -shop"));
+    });
+
+    test("matches Git states", () => {
+      const dirty = contextWith({ ...clean, hasChanges: true, ahead: 2 });
+      assert.ok(matches("git:dirty git:ahead git:repo", dirty));
+      assert.ok(!matches("git:clean", dirty));
+      assert.ok(matches("git:clean -git:behind", contextWith(clean)));
+      assert.ok(matches("git:none", contextWith(null)));
+      assert.ok(!matches("git:repo", contextWith(null)));
+    });
+
+    test("never matches git: terms while the status is unknown", () => {
+      assert.ok(!matches("git:dirty", contextWith(undefined)));
+      assert.ok(!matches("-git:dirty", contextWith(undefined)));
+    });
+  });
+});
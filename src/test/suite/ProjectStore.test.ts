@@ -0,0 +1,88 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { CATEGORIES_SCHEMA_VERSION, PROJECTS_SCHEMA_VERSION, ProjectStore } from "../../ProjectStore";
+
+suite("ProjectStore migrations", () => {
+  let storagePath: string;
+  let store: ProjectStore | undefined;
+
+  setup(() => {
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), "mess-store-"));
+  });
+
+  teardown(() => {
+    store?.dispose();
+    store = undefined;
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  function writeFile(name: string, data: unknown): void {
+    fs.writeFileSync(path.join(storagePath, name), JSON.stringify(data));
+  }
+
+  function readFile(name: string): any {
+    return JSON.parse(fs.readFileSync(path.join(storagePath, name), "utf-8"));
+  }
+
+  test("upgrades unversioned files and writes them back", () => {
+    writeFile("projects.json", {
+      projects: [
+        { path: "/srv/api", active: true },
+        { label: "Web", path: "/srv/web", active: "yes" },
+        { label: "No path" },
+        null
+      ]
+    });
+    writeFile("categories.json", { categories: [{ id: "work", name: "Work", icon: "briefcase" }, { name: "No id" }] });
+
+    store = new ProjectStore(storagePath);
+
+    assert.deepStrictEqual(store.getProjects(), [
+      { label: "api", path: "/srv/api", active: true },
+      { label: "Web", path: "/srv/web", active: false }
+    ]);
+    assert.deepStrictEqual(store.getCategories(), [{ id: "work", name: "Work", icon: "briefcase" }]);
+    assert.deepStrictEqual(store.getSavedSearches(), []);
+    assert.strictEqual(store.getLoadError(), undefined);
+
+    assert.strictEqual(readFile("projects.json").version, PROJECTS_SCHEMA_VERSION);
+    assert.strictEqual(readFile("categories.json").version, CATEGORIES_SCHEMA_VERSION);
+  });
+
+  test("derives the path of remote entries from their descriptor", () => {
+    writeFile("projects.json", {
+      version: PROJECTS_SCHEMA_VERSION,
+      projects: [{ label: "Box", active: true, remote: { type: "ssh", host: "box", path: "/home/me/app" } }]
+    });
+
+    store = new ProjectStore(storagePath);
+
+    const [project] = store.getProjects();
+    const uri = vscode.Uri.parse(project.path);
+    assert.strictEqual(uri.scheme, "vscode-remote");
+    assert.strictEqual(uri.authority, "ssh-remote+box");
+    assert.strictEqual(uri.path, "/home/me/app");
+  });
+
+  test("creates missing files at the current version", () => {
+    store = new ProjectStore(storagePath);
+
+    assert.deepStrictEqual(store.getProjects(), []);
+    assert.strictEqual(readFile("projects.json").version, PROJECTS_SCHEMA_VERSION);
+    assert.strictEqual(readFile("categories.json").version, CATEGORIES_SCHEMA_VERSION);
+  });
+
+  test("refuses files from a newer version and leaves them untouched", () => {
+    const newer = { version: PROJECTS_SCHEMA_VERSION + 1, projects: [{ label: "Future", path: "/srv/future", active: true }] };
+    writeFile("projects.json", newer);
+
+    store = new ProjectStore(storagePath);
+
+    assert.deepStrictEqual(store.getProjects(), []);
+    assert.match(store.getLoadError() || "", /newer version/);
+    assert.deepStrictEqual(readFile("projects.json"), newer);
+  });
+});
@@ -0,0 +1,35 @@
+import * as assert from "assert";
+import * as path from "path";
+import { parseJsonc, parseWorkspaceFolders } from "../../WorkspaceProject";
+
+suite("WorkspaceProject", () => {
+  test("parseJsonc strips comments and trailing commas outside strings", () => {
+    const text = `{
+      // folders
+      "folders": [{ "path": "a,}" }, { "path": "b", },], /* end, */
+      "settings": { "x": "// not a comment, ]" },
+    }`;
+    assert.deepStrictEqual(parseJsonc(text), {
+      folders: [{ path: "a,}" }, { path: "b" }],
+      settings: { x: "// not a comment, ]" }
+    });
+  });
+
+  test("parseWorkspaceFolders resolves paths and keeps uri members", () => {
+    const baseDir = path.resolve("/home/me/code");
+    const folders = parseWorkspaceFolders({
+      folders: [
+        { path: "api" },
+        { name: "Docs", path: "../docs" },
+        { uri: "vscode-remote://ssh-remote+box/home/me/app" },
+        { uri: "not a uri" },
+        { name: "Nothing" }
+      ]
+    }, baseDir);
+    assert.deepStrictEqual(folders, [
+      { name: "api", path: path.join(baseDir, "api") },
+      { name: "Docs", path: path.resolve(baseDir, "../docs") },
+      { name: "app", path: "vscode-remote://ssh-remote+box/home/me/app" }
+    ]);
+  });
+});
@@ -0,0 +1,21 @@
+import * as path from "path";
+import * as fs from "fs";
+import Mocha from "mocha";
+
+// Entry point VS Code loads in the extension host: runs every *.test.js next to this file
+export async function run(): Promise<void> {
+  const mocha = new Mocha({ ui: "tdd", color: true });
+
+  const files = await fs.promises.readdir(__dirname);
+  files.filter(file => file.endsWith(".test.js")).sort().forEach(file => mocha.addFile(path.join(__dirname, file)));
+
+  return new Promise((resolve, reject) => {
+    mocha.run(failures => {
+      if (failures > 0) {
+        reject(new Error(`${failures} test(s) failed`));
+      } else {
+        resolve();
+      }
+    });
+  });
+}
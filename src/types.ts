@@ -4,9 +4,51 @@ export interface ProjectNode {
   children?: ProjectNode[];
 }
 
+// Where a remote project lives. The entry's "path" holds the matching
+// vscode-remote:// URI, which is derived from this descriptor when missing.
+export type RemoteProjectDescriptor =
+  | { type: "ssh"; host: string; path: string }
+  | { type: "wsl"; distro: string; path: string }
+  | { type: "devcontainer"; localFolder: string; path: string }
+  | { type: "container"; containerName: string; path: string };
+
+export interface ProjectEntry {
+  label: string;
+  // Local folder path, or a full vscode-remote:// URI for remote projects
+  path: string;
+  active: boolean;
+  category?: string;
+  favorite?: boolean;
+  tags?: string[];
+  remote?: RemoteProjectDescriptor;
+  // Manually chosen project type, overrides detection
+  type?: string;
+  description?: string;
+  links?: ProjectLinks;
+  // Codicon id shown instead of the project type icon
+  icon?: string;
+  // Free-form notes, edited in the project details panel
+  notes?: string;
+}
+
+export interface ProjectLinks {
+  issues?: string;
+  ci?: string;
+  docs?: string;
+}
+
 export interface ProjectCategory {
   id: string;
   name: string;
   color?: string;
   icon?: string;
+  // Id of the enclosing category; top-level categories have none
+  parentId?: string;
+}
+
+// A named project query shown as a virtual "smart folder" in the Categories view
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string;
 }